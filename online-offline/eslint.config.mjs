@@ -11,6 +11,10 @@ const compat = new FlatCompat({
 
 const eslintConfig = [
   ...compat.extends("next/core-web-vitals", "next/typescript"),
+  {
+    // Vendored runtime and compiled template bundle — generated, not hand-written
+    ignores: ["src/magazine/assets/vendor/**", "src/magazine/generated/**"],
+  },
 ];
 
 export default eslintConfig;
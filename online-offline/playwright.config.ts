@@ -2,6 +2,9 @@ import { defineConfig, devices } from '@playwright/test';
 
 export default defineConfig({
   testDir: './tests',
+  // Template golden images run under playwright.magazine.config.ts (npm run test:magazine);
+  // the magazine unit specs run here too, so npm test covers them
+  testIgnore: 'magazine/**/*.visual.spec.ts',
   timeout: 30000,
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
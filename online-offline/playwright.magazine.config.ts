@@ -0,0 +1,34 @@
+import { defineConfig, devices } from '@playwright/test';
+
+// Magazine tests: templates rendered straight from the compiled bundle, no app server.
+// Golden images live in tests/magazine/__screenshots__/<platform>/ — fonts rasterise
+// slightly differently per OS, so each platform keeps its own. Record or refresh them
+// with `npm run test:magazine -- --update-snapshots` (CI's platform: run the Magazine
+// workflow by hand) and review the diff before committing. A missing golden is skipped.
+export default defineConfig({
+  testDir: './tests/magazine',
+  timeout: 30000,
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  retries: 0,
+  workers: process.env.CI ? 1 : undefined,
+  reporter: 'html',
+  snapshotPathTemplate: '{testDir}/__screenshots__/{platform}/{arg}{ext}',
+  expect: {
+    toHaveScreenshot: {
+      // Per-pixel colour tolerance, then the share of pixels allowed to differ
+      threshold: 0.2,
+      maxDiffPixelRatio: 0.001,
+      animations: 'disabled',
+    },
+  },
+  use: {
+    screenshot: 'only-on-failure',
+  },
+  projects: [
+    {
+      name: 'chromium',
+      use: { ...devices['Desktop Chrome'], deviceScaleFactor: 1 },
+    },
+  ],
+});
@@ -0,0 +1,173 @@
+// scripts/build-magazine-templates.ts — Compiles the magazine JSX into one bundle per template set.
+// Every source is compiled independently so that all failures are reported together, per
+// file, before anything is written. Each compiled bundle is then executed in a sandbox to
+// confirm each template in TEMPLATE_FILE_MAP is actually published on window, and that a
+// set's overrides really replace the base components they name.
+// Usage: npm run build:templates
+
+import { transform } from 'esbuild';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, relative } from 'path';
+import { createContext, runInContext } from 'vm';
+
+import {
+  BASE_TEMPLATE_SET,
+  FALLBACK_TEMPLATES,
+  FALLBACKS_PATH,
+  PRIMITIVES_PATH,
+  TEMPLATE_FILE_MAP,
+  bundlePaths,
+  hashTemplateSources,
+  listTemplateSets,
+  resolveTemplateSet,
+  templateSources,
+  templateSourcePaths,
+  type TemplateBundleManifest,
+  type TemplateSet,
+} from '../src/magazine/core/templateBundle';
+
+interface CompileFailure {
+  file: string;
+  message: string;
+}
+
+async function compileSource(path: string): Promise<string> {
+  const result = await transform(readFileSync(path, 'utf-8'), {
+    loader: 'jsx',
+    jsx: 'transform',
+    target: 'es2020',
+    sourcefile: basename(path),
+  });
+  return result.code;
+}
+
+function formatEsbuildError(err: unknown): string {
+  const errors = (err as { errors?: Array<{ text: string; location?: { line: number; column: number; lineText: string } }> }).errors;
+  if (!errors) return err instanceof Error ? err.message : String(err);
+  return errors
+    .map(e => e.location
+      ? `${e.location.line}:${e.location.column} ${e.text}\n    ${e.location.lineText.trim()}`
+      : e.text)
+    .join('\n');
+}
+
+// Compiled chunks are shared between sets: base files are compiled once, not per set.
+const compiled = new Map<string, Promise<string>>();
+
+function compileChunk(path: string): Promise<string> {
+  if (!compiled.has(path)) {
+    compiled.set(path, compileSource(path).then(code => {
+      const file = relative(process.cwd(), path);
+      console.log(`[templates] compiled ${file}`);
+      // primitives.jsx declares page constants at script scope for every template to
+      // share; template files are isolated in their own function scope.
+      return path === PRIMITIVES_PATH
+        ? `/* ${basename(path)} */\n${code}`
+        : `/* ${file} */\n(function () {\n${code}})();`;
+    }));
+  }
+  return compiled.get(path)!;
+}
+
+function runSandbox(code: string): Record<string, unknown> {
+  const sandbox: Record<string, unknown> = {
+    React: { createElement: () => null, Fragment: 'Fragment' },
+  };
+  sandbox.window = sandbox;
+  runInContext(code, createContext(sandbox));
+  return sandbox;
+}
+
+async function buildSet(set: TemplateSet, baseBundle: Record<string, unknown> | null): Promise<{
+  chunks: string[];
+  published: Record<string, unknown>;
+  failures: CompileFailure[];
+}> {
+  const failures: CompileFailure[] = [];
+  const chunks: string[] = [];
+
+  for (const path of templateSourcePaths(set)) {
+    try {
+      chunks.push(await compileChunk(path));
+    } catch (err) {
+      failures.push({ file: relative(process.cwd(), path), message: formatEsbuildError(err) });
+    }
+  }
+  if (failures.length > 0) return { chunks, published: {}, failures };
+
+  // Execute the bundle against a stub window to catch templates that compile but are
+  // never published (a missing Object.assign entry) or throw at load time.
+  let published: Record<string, unknown> = {};
+  try {
+    published = runSandbox(chunks.join('\n'));
+  } catch (err) {
+    failures.push({ file: `bundle (${set.name})`, message: err instanceof Error ? err.message : String(err) });
+  }
+  const expected: Array<[string, string]> = [
+    ...Object.entries(TEMPLATE_FILE_MAP),
+    ...FALLBACK_TEMPLATES.map(name => [name, basename(FALLBACKS_PATH)] as [string, string]),
+  ];
+  for (const [name, file] of expected) {
+    if (typeof published[name] !== 'function') {
+      failures.push({ file, message: `template ${name} is not published on window` });
+    }
+  }
+  // An override file that forgets to publish under the base name would silently inherit
+  // the base template, so each override must differ from the base component it names.
+  if (baseBundle) {
+    for (const [name, file] of Object.entries(set.overrides)) {
+      if (String(published[name]) === String(baseBundle[name])) {
+        failures.push({ file: `${set.name}/${file}`, message: `override for ${name} is not published on window` });
+      }
+    }
+  }
+  return { chunks, published, failures };
+}
+
+async function main() {
+  const failures: CompileFailure[] = [];
+  const built: Array<{ set: TemplateSet; chunks: string[] }> = [];
+  let baseBundle: Record<string, unknown> | null = null;
+
+  for (const name of listTemplateSets()) {
+    let set: TemplateSet;
+    try {
+      set = resolveTemplateSet(name);
+    } catch (err) {
+      failures.push({ file: `templates/${name}`, message: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    const result = await buildSet(set, name === BASE_TEMPLATE_SET ? null : baseBundle);
+    if (name === BASE_TEMPLATE_SET) baseBundle = result.published;
+    failures.push(...result.failures);
+    built.push({ set, chunks: result.chunks });
+  }
+
+  if (failures.length > 0) {
+    for (const f of failures) console.error(`[templates] ✗ ${f.file}\n  ${f.message.replace(/\n/g, '\n  ')}`);
+    throw new Error(`${failures.length} template source(s) failed — no bundle written`);
+  }
+
+  for (const { set, chunks } of built) {
+    const manifest: TemplateBundleManifest = {
+      templateSet: set.name,
+      sourceHash: hashTemplateSources(set),
+      builtAt: new Date().toISOString(),
+      templates: templateSources(set),
+    };
+    const { bundlePath, manifestPath } = bundlePaths(set.name);
+    mkdirSync(dirname(bundlePath), { recursive: true });
+    writeFileSync(bundlePath, chunks.join('\n'));
+    writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+    const overrides = Object.keys(set.overrides);
+    console.log(
+      `[templates] Bundle written: ${relative(process.cwd(), bundlePath)} (${Object.keys(manifest.templates).length} templates` +
+      (overrides.length ? `, overriding ${overrides.join(', ')})` : ')')
+    );
+  }
+}
+
+main().catch(err => {
+  console.error('[templates] Error:', err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+// scripts/diff-plans.ts — Shows how an edition changed between two plan JSON files.
+// Usage: npm run diff-plans -- <before-plan.json> <after-plan.json>
+// Plans come from `npm run plan-edition` or sit next to each generated PDF (-plan.json).
+// Exits 1 when the plans differ, like diff(1).
+
+import { readFileSync } from 'fs';
+
+import { diffPlans, formatPlanDiff, type PlanExport } from '../src/magazine/core/plan';
+
+function readPlan(path: string): PlanExport {
+  const plan = JSON.parse(readFileSync(path, 'utf-8')) as PlanExport;
+  if (!Array.isArray(plan.slots)) throw new Error(`${path} is not an edition plan`);
+  return plan;
+}
+
+function main() {
+  const [beforePath, afterPath] = process.argv.slice(2).filter(a => !a.startsWith('--'));
+  if (!beforePath || !afterPath) throw new Error('Usage: diff-plans <before-plan.json> <after-plan.json>');
+
+  const before = readPlan(beforePath);
+  const after = readPlan(afterPath);
+  if (before.curatorId !== after.curatorId || before.periodId !== after.periodId) {
+    console.warn('[diff] Plans are for different editions — matching slots by source anyway');
+  }
+
+  const lines = formatPlanDiff(diffPlans(before, after));
+  if (lines.length === 0) {
+    console.log('[diff] No changes');
+    return;
+  }
+  for (const line of lines) console.log(line);
+  process.exitCode = 1;
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('[diff] Error:', err instanceof Error ? err.message : String(err));
+  process.exit(2);
+}
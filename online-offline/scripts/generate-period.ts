@@ -0,0 +1,47 @@
+// scripts/generate-period.ts — Generates every curator's edition for a period.
+// Usage: NEXT_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run generate-period -- \
+//          [--period=<id>] [--out=<dir>] [--raster] [--concurrency=N] [--impose]
+//          [--preflight=block|warn|skip] [--render-failure=fail|warn] [--no-cache]
+// Without --period the active period is used. Exits non-zero if any edition failed;
+// the manifest in the output directory lists what succeeded and why the rest did not.
+
+import { generatePeriod } from '../src/magazine/core/batch';
+import {
+  makeClient,
+  parseConcurrency,
+  parsePreflightMode,
+  parseRenderFailureMode,
+} from '../src/magazine/core/generator';
+
+function arg(name: string): string | undefined {
+  return process.argv.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+async function getActivePeriodId(): Promise<string> {
+  const db = makeClient();
+  const { data, error } = await db.from('periods').select('id, season').eq('is_active', true).single();
+  if (error || !data) throw new Error(`No active period found: ${error?.message ?? 'no data'}`);
+  return (data as { id: string }).id;
+}
+
+async function main() {
+  const concurrency = parseConcurrency(arg('concurrency'));
+  const preflight = parsePreflightMode(arg('preflight'));
+  const onRenderFailure = parseRenderFailureMode(arg('render-failure'));
+  const periodId = arg('period') ?? await getActivePeriodId();
+  const { manifest } = await generatePeriod(periodId, {
+    output: process.argv.includes('--raster') ? 'raster' : 'vector',
+    concurrency,
+    outputDir: arg('out'),
+    impose: process.argv.includes('--impose'),
+    preflight,
+    onRenderFailure,
+    renderCacheDir: process.argv.includes('--no-cache') ? null : undefined,
+  });
+  if (manifest.failed > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('[batch] Error:', err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
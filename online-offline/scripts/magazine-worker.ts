@@ -0,0 +1,54 @@
+// scripts/magazine-worker.ts — Long-running worker for queued magazine generation jobs.
+// Usage: NEXT_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run magazine-worker -- \
+//          [--once] [--poll=<seconds>] [--concurrency=N]
+// Jobs run one at a time. --once drains the queue and exits instead of polling.
+
+import { makeClient, parseConcurrency } from '../src/magazine/core/generator';
+import { runNextJob } from '../src/magazine/core/worker';
+
+const DEFAULT_POLL_SECONDS = 5;
+
+function arg(name: string): string | undefined {
+  return process.argv.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+// Seconds between polls of an empty queue. Anything but a positive number would poll the
+// jobs table in a tight loop.
+function parsePollSeconds(raw: string | undefined): number {
+  if (raw === undefined) return DEFAULT_POLL_SECONDS;
+  const seconds = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`--poll must be a positive number of seconds, got "${raw}"`);
+  }
+  return seconds;
+}
+
+let stopping = false;
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    if (stopping) process.exit(1);
+    stopping = true;
+    console.log(`[worker] ${signal} received — finishing the current job, then exiting`);
+  });
+}
+
+async function main() {
+  const pollMs = parsePollSeconds(arg('poll')) * 1000;
+  const options = { concurrency: parseConcurrency(arg('concurrency')) };
+  const db = makeClient();
+  const once = process.argv.includes('--once');
+
+  console.log(`[worker] Started${once ? ' (draining queue once)' : `, polling every ${pollMs / 1000}s`}`);
+  while (!stopping) {
+    const ranJob = await runNextJob(db, options);
+    if (ranJob) continue;
+    if (once) break;
+    await new Promise(resolve => setTimeout(resolve, pollMs));
+  }
+  console.log('[worker] Stopped');
+}
+
+main().catch(err => {
+  console.error('[worker] Error:', err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+-- online//offline — magazine generation jobs
+-- Run once in the Supabase SQL editor (Database → SQL Editor → New query).
+-- Safe to re-run: IF NOT EXISTS / ON CONFLICT DO NOTHING throughout.
+--
+-- One row per requested edition build. The admin API enqueues rows; the worker
+-- (npm run magazine-worker) claims them, reports per-page progress and uploads
+-- the finished PDF to the private "magazines" Storage bucket.
+--
+--   queued ──▶ rendering ──▶ assembled
+--                  └───────▶ failed
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.magazine_jobs (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  curator_id     uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  period_id      uuid NOT NULL REFERENCES public.periods(id) ON DELETE CASCADE,
+  status         text NOT NULL DEFAULT 'queued'
+                 CHECK (status IN ('queued', 'rendering', 'assembled', 'failed')),
+  output_mode    text NOT NULL DEFAULT 'vector' CHECK (output_mode IN ('vector', 'raster')),
+  pages_rendered integer NOT NULL DEFAULT 0,
+  pages_total    integer,
+  page_count     integer,
+  storage_path   text,
+  error          text,
+  requested_by   uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  started_at     timestamptz,
+  finished_at    timestamptz,
+  -- Bumped on every progress write; a rendering job that stops updating is
+  -- treated as abandoned and may be reclaimed by another worker.
+  updated_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS magazine_jobs_status_created_idx
+  ON public.magazine_jobs (status, created_at);
+CREATE INDEX IF NOT EXISTS magazine_jobs_period_curator_idx
+  ON public.magazine_jobs (period_id, curator_id, created_at DESC);
+
+-- Admins can read jobs directly; all writes go through the service role.
+ALTER TABLE public.magazine_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read magazine jobs" ON public.magazine_jobs;
+CREATE POLICY "Admins can read magazine jobs"
+  ON public.magazine_jobs FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.profile_types
+    WHERE profile_id = auth.uid() AND type = 'admin'
+  ));
+
+-- Finished PDFs. Private: served only through /api/admin/jobs/[jobId]/pdf.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('magazines', 'magazines', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,9 @@
+-- online//offline — streaming link for music submissions
+-- Run once in the Supabase SQL editor (Database → SQL Editor → New query).
+-- Safe to re-run.
+--
+-- Captured by SubmissionForm for music creators and printed as a QR code on MusicPage.
+
+ALTER TABLE public.content
+  ADD COLUMN IF NOT EXISTS listen_url text
+  CHECK (listen_url IS NULL OR listen_url LIKE 'https://%');
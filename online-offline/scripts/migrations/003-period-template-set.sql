@@ -0,0 +1,10 @@
+-- online//offline — per-issue template set
+-- Run once in the Supabase SQL editor (Database → SQL Editor → New query).
+-- Safe to re-run.
+--
+-- Names the directory under src/magazine/templates/ whose set.json overrides base
+-- templates for this period (e.g. 'spring-2026'). NULL renders with base.
+
+ALTER TABLE public.periods
+  ADD COLUMN IF NOT EXISTS template_set_name text
+  CHECK (template_set_name IS NULL OR template_set_name ~ '^[a-z0-9][a-z0-9-]*$');
@@ -0,0 +1,29 @@
+-- online//offline — curator running order
+-- Run once in the Supabase SQL editor (Database → SQL Editor → New query).
+-- Safe to re-run: IF NOT EXISTS / DROP POLICY IF EXISTS throughout.
+--
+-- The order a curator arranged their selections in on /curate, saved with those
+-- selections. entries is an ordered array of { "source": text, "pinned": boolean }
+-- where source is 'creator:<profile id>', 'collab:<collab id>', 'campaign:<id>' or
+-- 'communications'. The generator keeps pinned entries at their position in this
+-- list and arranges everything else around them.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.curator_running_orders (
+  curator_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  period_id  uuid NOT NULL REFERENCES public.periods(id) ON DELETE CASCADE,
+  entries    jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(entries) = 'array'),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (curator_id, period_id)
+);
+
+ALTER TABLE public.curator_running_orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Curators manage their running order" ON public.curator_running_orders;
+CREATE POLICY "Curators manage their running order"
+  ON public.curator_running_orders FOR ALL
+  USING (auth.uid() = curator_id)
+  WITH CHECK (auth.uid() = curator_id);
+
+COMMIT;
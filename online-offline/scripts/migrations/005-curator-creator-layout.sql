@@ -0,0 +1,10 @@
+-- online//offline — curator layout choice per selected submission
+-- Run once in the Supabase SQL editor (Database → SQL Editor → New query).
+-- Safe to re-run.
+--
+-- The template a curator picked for a creator's submission from its eligible layouts
+-- (e.g. 'Spread' instead of 'SpreadPanorama'). NULL means the rule-based default; a
+-- value the submission no longer qualifies for is ignored by the generator.
+
+ALTER TABLE public.curator_creator_selections
+  ADD COLUMN IF NOT EXISTS layout text;
@@ -0,0 +1,12 @@
+-- online//offline — collab spread entries recorded per curator selection
+-- Run once in the Supabase SQL editor (Database → SQL Editor → New query).
+-- Safe to re-run.
+--
+-- The collab_submissions ids a curator's collab spread printed, in print order. The PDF
+-- generator fills this once the first edition with the selection has printed (see
+-- src/magazine/core/collabEntries.ts) and reuses it afterwards, so a reprint shows the
+-- same entries. NULL means not printed yet. Re-saving selections on /curate keeps it
+-- while the collab stays selected with the same participation mode and location.
+
+ALTER TABLE public.curator_collab_selections
+  ADD COLUMN IF NOT EXISTS entry_ids uuid[];
@@ -0,0 +1,12 @@
+-- online//offline — how a curator chose the communications that print
+-- Run once in the Supabase SQL editor (Database → SQL Editor → New query).
+-- Safe to re-run.
+--
+-- The method saved on /curate/communications: 'all', 'random' or 'select'. The messages
+-- themselves carry is_selected; this records the choice even when it selects none, so a
+-- saved empty selection prints no messages. NULL means never chosen (every submitted
+-- message prints). Re-saving selections on /curate keeps it.
+
+ALTER TABLE public.curator_communication_selections
+  ADD COLUMN IF NOT EXISTS selection_method text
+  CHECK (selection_method IN ('all', 'random', 'select'));
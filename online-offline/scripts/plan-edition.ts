@@ -0,0 +1,32 @@
+// scripts/plan-edition.ts — Dry run: writes a curator's edition plan as JSON without rendering.
+// Usage: NEXT_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run plan-edition -- \
+//          --curator=<id> [--period=<id>] [--out=<dir>]
+// Without --period the active period is used. Compare two plans with `npm run diff-plans`.
+
+import { fetchActivePeriodId } from '../src/magazine/core/assembly';
+import { makeClient, planMagazine } from '../src/magazine/core/generator';
+
+function arg(name: string): string | undefined {
+  return process.argv.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+async function main() {
+  const curatorId = arg('curator');
+  if (!curatorId) throw new Error('--curator=<id> is required');
+  const periodId = arg('period') ?? await fetchActivePeriodId(makeClient());
+
+  const { plan, planPath } = await planMagazine(curatorId, periodId, { outputDir: arg('out') });
+  for (const slot of plan.slots) {
+    const pages = slot.pages.join('–').padEnd(7);
+    const subject = [slot.contributor, slot.title && `"${slot.title}"`].filter(Boolean).join(' ');
+    const detail = slot.filler ? `(${slot.filler} filler)` : subject;
+    const entries = slot.entryCount === undefined ? '' : ` [${slot.entryCount}]`;
+    console.log(`[plan] p.${pages} ${slot.templateName.padEnd(22)} ${detail}${entries}`);
+  }
+  console.log(`[plan] ${plan.pageCount} pages, ${plan.slots.length} slots. Plan: ${planPath}`);
+}
+
+main().catch(err => {
+  console.error('[plan] Error:', err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
@@ -454,7 +454,7 @@ UPDATE public.campaigns SET bio=$q$Furniture built to outlast the person who bou
 
 -- ============================================================================
 -- 9. COMMUNICATIONS (4) — status='submitted', period Spring 2026.
---    Generator shows up to 4, filtered by recipient + submitted + period.
+--    No selection saved, so the generator prints all submitted messages to the recipient.
 -- ============================================================================
 INSERT INTO public.communications
   (id, sender_id, recipient_id, subject, content, status, period_id, word_count)
@@ -1,8 +1,17 @@
 // scripts/test-generator.ts — Smoke test for the magazine generation pipeline.
-// Usage: NEXT_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run generate-test
+// Usage: NEXT_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run generate-test [-- --raster] [--concurrency=N] [--impose]
+//          [--preflight=block|warn|skip] [--render-failure=fail|warn] [--no-cache] [--dry-run]
+// --dry-run writes the edition plan as JSON and renders nothing. --no-cache renders every
+// page afresh instead of reusing unchanged ones from the render cache.
 
 import { createClient } from '@supabase/supabase-js';
-import { generateMagazine } from '../src/magazine/core/generator';
+import {
+  generateMagazine,
+  parseConcurrency,
+  parsePreflightMode,
+  parseRenderFailureMode,
+  planMagazine,
+} from '../src/magazine/core/generator';
 
 const CURATOR_ID = '185f8c7c-9837-425a-ac1c-ebf18d1af1b9'; // Lena Vasquez (seed data)
 
@@ -21,10 +30,28 @@ async function getActivePeriodId(): Promise<string> {
 }
 
 async function main() {
+  const concurrencyArg = process.argv.find(a => a.startsWith('--concurrency='));
+  const concurrency = parseConcurrency(concurrencyArg?.split('=')[1]);
+  const preflightArg = process.argv.find(a => a.startsWith('--preflight='));
+  const preflight = parsePreflightMode(preflightArg?.split('=')[1]);
+  const renderFailureArg = process.argv.find(a => a.startsWith('--render-failure='));
+  const onRenderFailure = parseRenderFailureMode(renderFailureArg?.split('=')[1]);
   console.log(`[test] Generating magazine for curator ${CURATOR_ID}...`);
   const periodId = await getActivePeriodId();
-  const outputPath = await generateMagazine(CURATOR_ID, periodId);
-  console.log(`[test] Done. PDF at: ${outputPath}`);
+  if (process.argv.includes('--dry-run')) {
+    const { plan, planPath } = await planMagazine(CURATOR_ID, periodId);
+    console.log(`[test] Dry run. ${plan.pageCount} pages in ${plan.slots.length} slots planned at: ${planPath}`);
+    return;
+  }
+  const output = process.argv.includes('--raster') ? 'raster' : 'vector';
+  const impose = process.argv.includes('--impose');
+  const renderCacheDir = process.argv.includes('--no-cache') ? null : undefined;
+  const { outputPath, pageCount, imposedPath, failedSlots } = await generateMagazine(CURATOR_ID, periodId, {
+    output, concurrency, impose, preflight, onRenderFailure, renderCacheDir,
+  });
+  console.log(`[test] Done. ${pageCount} pages at: ${outputPath}`);
+  if (failedSlots.length > 0) console.log(`[test] ${failedSlots.length} slot(s) printed despite render errors`);
+  if (imposedPath) console.log(`[test] Printer spreads at: ${imposedPath}`);
 }
 
 main().catch(err => {
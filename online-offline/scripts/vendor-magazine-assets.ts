@@ -0,0 +1,101 @@
+// scripts/vendor-magazine-assets.ts — Copies the magazine's render-time assets into the repo.
+// Fonts come from the @fontsource packages, the React runtime is bundled from node_modules.
+// The output under src/magazine/assets/ is committed so that rendering works offline and
+// an edition can be re-rendered byte-for-byte years later.
+// Usage: npm run vendor-assets
+
+import { build } from 'esbuild';
+import { copyFileSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import type { FontFaceAsset } from '../src/magazine/core/assets';
+
+const ROOT = process.cwd();
+const FONT_OUT = join(ROOT, 'src/magazine/assets/fonts');
+const VENDOR_OUT = join(ROOT, 'src/magazine/assets/vendor');
+
+// Faces the templates use: F.serif (regular + italic), F.sans (300/400/500 — the
+// family ships 400 as its lightest weight), F.mono (regular).
+const FONT_SOURCES: Array<{ pkg: string; css: string[] }> = [
+  { pkg: '@fontsource/instrument-serif', css: ['400.css', '400-italic.css'] },
+  { pkg: '@fontsource/instrument-sans',  css: ['400.css', '500.css'] },
+  { pkg: '@fontsource/courier-prime',    css: ['400.css'] },
+];
+
+// Parses a @fontsource stylesheet into one entry per @font-face block (one per subset).
+function parseFontsourceCss(css: string): Array<Omit<FontFaceAsset, 'file'> & { source: string }> {
+  const blocks = css.match(/@font-face\s*{[^}]*}/g) ?? [];
+  return blocks.map(block => {
+    const field = (name: string) => block.match(new RegExp(`${name}:\\s*([^;]+);`))?.[1].trim() ?? '';
+    const source = block.match(/url\(\.\/files\/([^)]+\.woff2)\)/)?.[1];
+    if (!source) throw new Error(`No woff2 source in @font-face block:\n${block}`);
+    return {
+      family:       field('font-family').replace(/^'|'$/g, ''),
+      style:        field('font-style') as FontFaceAsset['style'],
+      weight:       Number(field('font-weight')),
+      unicodeRange: field('unicode-range') || undefined,
+      source,
+    };
+  });
+}
+
+function vendorFonts(): void {
+  mkdirSync(FONT_OUT, { recursive: true });
+  const manifest: FontFaceAsset[] = [];
+
+  for (const { pkg, css } of FONT_SOURCES) {
+    const pkgDir = join(ROOT, 'node_modules', pkg);
+    for (const sheet of css) {
+      for (const face of parseFontsourceCss(readFileSync(join(pkgDir, sheet), 'utf-8'))) {
+        const { source, ...rest } = face;
+        copyFileSync(join(pkgDir, 'files', source), join(FONT_OUT, source));
+        manifest.push({ ...rest, file: source });
+        console.log(`[vendor] font ${source}`);
+      }
+    }
+    copyFileSync(join(pkgDir, 'LICENSE'), join(FONT_OUT, `LICENSE-${pkg.split('/')[1]}.txt`));
+  }
+
+  writeFileSync(join(FONT_OUT, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n');
+}
+
+// Bundles React + ReactDOM into a single browser script exposing window.React and
+// window.ReactDOM, which is the global shape the templates were written against.
+async function vendorReactRuntime(): Promise<void> {
+  mkdirSync(VENDOR_OUT, { recursive: true });
+  const reactVersion = (JSON.parse(
+    readFileSync(join(ROOT, 'node_modules/react/package.json'), 'utf-8')
+  ) as { version: string }).version;
+
+  await build({
+    stdin: {
+      contents: `
+        import * as React from 'react';
+        import * as ReactDOM from 'react-dom/client';
+        window.React = React;
+        window.ReactDOM = ReactDOM;
+      `,
+      resolveDir: ROOT,
+      loader: 'js',
+    },
+    bundle: true,
+    minify: true,
+    format: 'iife',
+    target: 'es2020',
+    define: { 'process.env.NODE_ENV': '"production"' },
+    banner: { js: `/* React ${reactVersion} runtime — generated by scripts/vendor-magazine-assets.ts */` },
+    outfile: join(VENDOR_OUT, 'react-runtime.js'),
+  });
+  console.log(`[vendor] react-runtime.js (React ${reactVersion})`);
+}
+
+async function main() {
+  vendorFonts();
+  await vendorReactRuntime();
+  console.log('[vendor] Done.');
+}
+
+main().catch(err => {
+  console.error('[vendor] Error:', err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
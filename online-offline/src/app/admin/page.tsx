@@ -4,6 +4,34 @@ import React, { useState, useEffect } from 'react';
 import { useSupabase } from '@/lib/supabase/useSupabase';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { isActiveJob, type MagazineJob } from '@/magazine/core/jobs';
+
+const JOB_POLL_MS = 3000;
+
+const pressButtonStyle: React.CSSProperties = {
+  fontFamily: 'var(--font-mono)',
+  fontSize: 9,
+  letterSpacing: '0.14em',
+  textTransform: 'uppercase',
+  color: 'var(--neon-accent)',
+  border: '1px solid var(--rule-mid)',
+  borderBottom: '2px solid var(--ground-4)',
+  borderRadius: 2,
+  padding: '7px 14px',
+  boxShadow: '0 2px 0 var(--ground-4), 0 3px 6px rgba(0,0,0,0.4)',
+  whiteSpace: 'nowrap',
+};
+
+function jobStatusLabel(job: MagazineJob): string {
+  switch (job.status) {
+    case 'queued':    return 'queued for generation';
+    case 'rendering': return job.pages_total
+      ? `rendering · ${job.pages_rendered}/${job.pages_total} pages`
+      : 'rendering…';
+    case 'assembled': return `pdf ready · ${job.page_count} pages`;
+    case 'failed':    return `generation failed · ${job.error ?? 'unknown error'}`;
+  }
+}
 
 interface CuratorRow {
   id: string;
@@ -17,6 +45,8 @@ export default function AdminPage() {
   const [loading, setLoading] = useState(true);
   const [curators, setCurators] = useState<CuratorRow[]>([]);
   const [periodName, setPeriodName] = useState('');
+  const [periodId, setPeriodId] = useState('');
+  const [jobs, setJobs] = useState<Record<string, MagazineJob>>({});
   const [error, setError] = useState('');
 
   useEffect(() => {
@@ -39,6 +69,7 @@ export default function AdminPage() {
         .maybeSingle();
       if (!period) { setLoading(false); return; }
       setPeriodName((period as { name: string }).name);
+      setPeriodId((period as { id: string }).id);
 
       const { data: selections, error: selErr } = await supabase
         .from('curator_creator_selections')
@@ -75,6 +106,37 @@ export default function AdminPage() {
     load();
   }, []);
 
+  async function refreshJobs(forPeriod: string) {
+    const res = await fetch(`/api/admin/jobs?periodId=${forPeriod}`);
+    const body = await res.json();
+    if (!res.ok) { setError(body.error ?? 'Failed to load generation jobs'); return; }
+    setJobs(body.jobs);
+  }
+
+  useEffect(() => {
+    if (periodId) refreshJobs(periodId);
+  }, [periodId]);
+
+  // Poll only while a build is queued or rendering
+  const hasActiveJob = Object.values(jobs).some(isActiveJob);
+  useEffect(() => {
+    if (!periodId || !hasActiveJob) return;
+    const timer = setInterval(() => refreshJobs(periodId), JOB_POLL_MS);
+    return () => clearInterval(timer);
+  }, [periodId, hasActiveJob]);
+
+  async function generate(curatorId: string) {
+    setError('');
+    const res = await fetch('/api/admin/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ curatorId, periodId }),
+    });
+    const body = await res.json();
+    if (!res.ok) { setError(body.error ?? 'Failed to start generation'); return; }
+    setJobs(prev => ({ ...prev, [curatorId]: body.job }));
+  }
+
   if (loading) {
     return (
       <div style={{
@@ -123,6 +185,9 @@ export default function AdminPage() {
           }}>
             {curators.length} curator{curators.length !== 1 ? 's' : ''} with creator selections
           </p>
+          <Link href="/admin/templates" style={{ ...pressButtonStyle, textDecoration: 'none', display: 'inline-block', marginTop: 16 }}>
+            Template playground →
+          </Link>
         </div>
 
         {error && (
@@ -144,9 +209,11 @@ export default function AdminPage() {
           </p>
         ) : (
           <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
-            {curators.map(c => (
-              <Link key={c.id} href={`/admin/preview/${c.id}`} style={{ textDecoration: 'none' }}>
-                <div style={{
+            {curators.map(c => {
+              const job = jobs[c.id];
+              const building = job ? isActiveJob(job) : false;
+              return (
+                <div key={c.id} style={{
                   background: 'var(--ground-2)',
                   border: '1px solid var(--rule)',
                   borderLeft: '2px solid var(--neon-accent)',
@@ -172,28 +239,47 @@ export default function AdminPage() {
                     }}>
                       {c.selectionCount} creator selection{c.selectionCount !== 1 ? 's' : ''}
                     </div>
+                    {job && (
+                      <div style={{
+                        fontFamily: 'var(--font-mono)', fontSize: 10,
+                        color: job.status === 'failed' ? 'var(--neon-accent)' : 'var(--paper-3)',
+                        letterSpacing: '0.1em', marginTop: 5,
+                      }}>
+                        {jobStatusLabel(job)}
+                        {job.status === 'assembled' && (
+                          <>
+                            {' · '}
+                            <a href={`/api/admin/jobs/${job.id}/pdf`} style={{ color: 'var(--neon-accent)' }}>
+                              download pdf
+                            </a>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
 
-                  {/* Press mechanic button */}
-                  <div style={{
-                    fontFamily: 'var(--font-mono)',
-                    fontSize: 9,
-                    letterSpacing: '0.14em',
-                    textTransform: 'uppercase',
-                    color: 'var(--neon-accent)',
-                    border: '1px solid var(--rule-mid)',
-                    borderBottom: '2px solid var(--ground-4)',
-                    borderRadius: 2,
-                    padding: '7px 14px',
-                    boxShadow: '0 2px 0 var(--ground-4), 0 3px 6px rgba(0,0,0,0.4)',
-                    flexShrink: 0,
-                    whiteSpace: 'nowrap',
-                  }}>
-                    Preview →
+                  <div style={{ display: 'flex', gap: 8, flexShrink: 0 }}>
+                    {/* Press mechanic buttons */}
+                    <button
+                      type="button"
+                      onClick={() => generate(c.id)}
+                      disabled={building}
+                      style={{
+                        ...pressButtonStyle,
+                        background: 'transparent',
+                        cursor: building ? 'default' : 'pointer',
+                        opacity: building ? 0.5 : 1,
+                      }}
+                    >
+                      {building ? 'Building…' : 'Generate'}
+                    </button>
+                    <Link href={`/admin/preview/${c.id}`} style={{ ...pressButtonStyle, textDecoration: 'none' }}>
+                      Preview →
+                    </Link>
                   </div>
                 </div>
-              </Link>
-            ))}
+              );
+            })}
           </div>
         )}
 
@@ -0,0 +1,482 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useSupabase } from '@/lib/supabase/useSupabase';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+// Template playground: any template from the template map, rendered through the same page
+// HTML the PDF generator prints, with fixture data, a real submission's data, or JSON
+// edited by hand. Renders as you type; nothing is saved.
+
+interface TemplateFixtureInfo {
+  id: string;
+  description: string;
+  data: Record<string, unknown>;
+}
+
+interface TemplateInfo {
+  name: string;
+  isSpread: boolean;
+  fixtures: TemplateFixtureInfo[];
+}
+
+interface Catalog {
+  templates: TemplateInfo[];
+  templateSets: string[];
+  defaultTemplateSet: string;
+}
+
+interface SubmissionTemplate {
+  templateName: string;
+  eligible: string[];
+  data: Record<string, unknown>;
+}
+
+type View = 'spread' | 'single';
+
+// Print canvas in CSS pixels (see core/pageHtml.ts): 768 × 1032 trim plus 11px bleed
+const PAGE_W = 790;
+const PAGE_H = 1054;
+const BLEED = 11;
+const ZOOMS = [0.25, 0.5, 0.75, 1];
+const RENDER_DELAY_MS = 300;
+
+const controlStyle: React.CSSProperties = {
+  fontFamily: 'var(--font-mono)',
+  fontSize: 9,
+  letterSpacing: '0.14em',
+  textTransform: 'uppercase',
+  color: 'var(--paper-3)',
+  background: 'transparent',
+  border: '1px solid var(--rule-mid)',
+  borderRadius: 2,
+  padding: '6px 10px',
+  cursor: 'pointer',
+};
+
+const labelStyle: React.CSSProperties = {
+  fontFamily: 'var(--font-mono)', fontSize: 9,
+  color: 'var(--paper-4)', letterSpacing: '0.14em',
+  textTransform: 'uppercase',
+};
+
+function toggleStyle(active: boolean): React.CSSProperties {
+  return {
+    ...controlStyle,
+    color: active ? 'var(--neon-accent)' : 'var(--paper-4)',
+    borderColor: active ? 'var(--neon-accent)' : 'var(--rule-mid)',
+  };
+}
+
+function formatJson(data: unknown): string {
+  return JSON.stringify(data, null, 2);
+}
+
+// The side a single page prints on: even pages are left-hand pages
+function pageSide(jsonText: string): 'left' | 'right' {
+  try {
+    const page = (JSON.parse(jsonText) as { page?: unknown }).page;
+    return typeof page === 'number' && page % 2 === 0 ? 'left' : 'right';
+  } catch {
+    return 'right';
+  }
+}
+
+// A PAGE_W-or-wider window onto a rendered canvas, starting `left` pixels in. With bleed
+// on, each page in the window has its bleed shaded outside a dashed trim line.
+function CanvasFrame({ html, canvasW, left, width, zoom, bleed, title }: {
+  html: string;
+  canvasW: number;
+  left: number;
+  width: number;
+  zoom: number;
+  bleed: boolean;
+  title: string;
+}) {
+  const pageStarts: number[] = [];
+  for (let x = 0; x < canvasW; x += PAGE_W) {
+    if (x >= left && x < left + width) pageStarts.push(x - left);
+  }
+
+  return (
+    <div style={{
+      position: 'relative',
+      width: width * zoom, height: PAGE_H * zoom,
+      overflow: 'hidden', flexShrink: 0,
+      boxShadow: '0 4px 24px rgba(0,0,0,0.5)',
+      border: '1px solid var(--rule)',
+    }}>
+      <iframe
+        srcDoc={html}
+        width={canvasW}
+        height={PAGE_H}
+        style={{
+          border: 'none', display: 'block',
+          transformOrigin: 'top left',
+          transform: `scale(${zoom}) translateX(${-left}px)`,
+        }}
+        sandbox="allow-scripts"
+        title={title}
+      />
+      {bleed && pageStarts.map(x => (
+        <div key={x} style={{
+          position: 'absolute', top: 0, left: x * zoom,
+          width: PAGE_W * zoom, height: PAGE_H * zoom,
+          overflow: 'hidden', pointerEvents: 'none',
+        }}>
+          <div style={{
+            position: 'absolute', inset: BLEED * zoom,
+            outline: '1px dashed var(--neon-accent)',
+            boxShadow: '0 0 0 9999px rgba(224,90,40,0.28)',
+          }} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function TemplatePlaygroundPage() {
+  const supabase = useSupabase();
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+
+  const [templateName, setTemplateName] = useState('');
+  const [templateSet, setTemplateSet] = useState('');
+  const [source, setSource] = useState('');
+  const [jsonText, setJsonText] = useState('{}');
+  const [jsonError, setJsonError] = useState('');
+
+  const [submissionId, setSubmissionId] = useState('');
+  const [submission, setSubmission] = useState<SubmissionTemplate | null>(null);
+  const [loadingSubmission, setLoadingSubmission] = useState(false);
+  const [submissionError, setSubmissionError] = useState('');
+
+  const [html, setHtml] = useState('');
+  const [isSpread, setIsSpread] = useState(false);
+  const [renderError, setRenderError] = useState('');
+
+  const [view, setView] = useState<View>('spread');
+  const [bleed, setBleed] = useState(false);
+  const [zoom, setZoom] = useState(0.5);
+
+  useEffect(() => {
+    async function load() {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) { router.push('/auth'); return; }
+
+      const { data: adminRow } = await supabase
+        .from('profile_types')
+        .select('type')
+        .eq('profile_id', user.id)
+        .eq('type', 'admin')
+        .maybeSingle();
+      if (!adminRow) { router.push('/dashboard'); return; }
+
+      const res = await fetch('/api/admin/templates');
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        setError((body as { error?: string }).error ?? `HTTP ${res.status}`);
+        setLoading(false);
+        return;
+      }
+      const json = await res.json() as Catalog;
+      setCatalog(json);
+      setTemplateSet(json.defaultTemplateSet);
+      const first = json.templates[0];
+      if (first) {
+        setTemplateName(first.name);
+        const fixture = first.fixtures[0];
+        setSource(fixture ? fixture.id : 'custom');
+        setJsonText(formatJson(fixture?.data ?? {}));
+      }
+      setLoading(false);
+    }
+    load();
+  }, []);
+
+  // Re-render shortly after the last change; a newer change cancels the render in flight
+  useEffect(() => {
+    if (!templateName || !templateSet) return;
+    let data: unknown;
+    try {
+      data = JSON.parse(jsonText);
+    } catch (err) {
+      setJsonError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    setJsonError('');
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch('/api/admin/templates/render', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ templateName, data, templateSet }),
+          signal: controller.signal,
+        });
+        const body = await res.json().catch(() => ({})) as { html?: string; isSpread?: boolean; error?: string };
+        if (!res.ok || !body.html) {
+          setRenderError(body.error ?? `HTTP ${res.status}`);
+          return;
+        }
+        setRenderError('');
+        setHtml(body.html);
+        setIsSpread(!!body.isSpread);
+      } catch (err) {
+        if (!controller.signal.aborted) setRenderError(err instanceof Error ? err.message : String(err));
+      }
+    }, RENDER_DELAY_MS);
+    return () => { clearTimeout(timer); controller.abort(); };
+  }, [templateName, jsonText, templateSet]);
+
+  const current = catalog?.templates.find(t => t.name === templateName);
+  const fromSubmission = source.startsWith('submission:');
+  const fixtureId = current?.fixtures.some(f => f.id === source) ? source : '';
+
+  // A submission's data stays loaded across templates, so it can be tried in each;
+  // otherwise a template opens on its first fixture.
+  function chooseTemplate(name: string) {
+    setTemplateName(name);
+    if (fromSubmission) return;
+    const fixture = catalog?.templates.find(t => t.name === name)?.fixtures[0];
+    setSource(fixture ? fixture.id : 'custom');
+    setJsonText(formatJson(fixture?.data ?? {}));
+  }
+
+  function chooseFixture(id: string) {
+    const fixture = current?.fixtures.find(f => f.id === id);
+    if (!fixture) return;
+    setSource(fixture.id);
+    setSubmission(null);
+    setJsonText(formatJson(fixture.data));
+  }
+
+  async function loadSubmission() {
+    const id = submissionId.trim();
+    if (!id) return;
+    setLoadingSubmission(true);
+    setSubmissionError('');
+    const res = await fetch(`/api/admin/templates/submission/${encodeURIComponent(id)}?set=${encodeURIComponent(templateSet)}`);
+    const body = await res.json().catch(() => ({})) as SubmissionTemplate & { error?: string };
+    setLoadingSubmission(false);
+    if (!res.ok) {
+      setSubmissionError(body.error ?? `HTTP ${res.status}`);
+      return;
+    }
+    setSubmission(body);
+    setSource(`submission:${id}`);
+    setTemplateName(body.templateName);
+    setJsonText(formatJson(body.data));
+  }
+
+  if (loading) {
+    return (
+      <div style={{
+        background: 'var(--lt-bg)', minHeight: '100vh',
+        display: 'flex', alignItems: 'center', justifyContent: 'center',
+      }}>
+        <span style={{
+          fontFamily: 'var(--font-mono)', fontSize: 13,
+          color: 'var(--paper-4)', letterSpacing: '0.08em',
+        }}>
+          loading…
+        </span>
+      </div>
+    );
+  }
+
+  if (error || !catalog) {
+    return (
+      <div style={{
+        background: 'var(--lt-bg)', minHeight: '100vh', padding: '48px 32px',
+      }}>
+        <div style={{ maxWidth: 720, margin: '0 auto' }}>
+          <Link href="/admin" style={{ fontFamily: 'var(--font-mono)', fontSize: 10, color: 'var(--paper-4)', letterSpacing: '0.12em', textDecoration: 'none', textTransform: 'uppercase' }}>
+            ← back
+          </Link>
+          <p style={{ fontFamily: 'var(--font-mono)', fontSize: 13, color: 'var(--neon-accent)', marginTop: 32, letterSpacing: '0.06em' }}>
+            {error || 'No templates'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const frameTitle = `${templateName} — ${source}`;
+  const frame = (left: number, width: number) => (
+    <CanvasFrame
+      html={html} canvasW={isSpread ? PAGE_W * 2 : PAGE_W} left={left} width={width}
+      zoom={zoom} bleed={bleed} title={frameTitle}
+    />
+  );
+  const facingPage = (
+    <div style={{
+      width: PAGE_W * zoom, height: PAGE_H * zoom, flexShrink: 0,
+      border: '1px dashed var(--rule-mid)',
+    }} />
+  );
+
+  let preview: React.ReactNode;
+  if (!html) {
+    preview = null;
+  } else if (isSpread && view === 'spread') {
+    preview = frame(0, PAGE_W * 2);
+  } else if (isSpread) {
+    preview = <div style={{ display: 'flex', gap: 24 }}>{frame(0, PAGE_W)}{frame(PAGE_W, PAGE_W)}</div>;
+  } else if (view === 'spread') {
+    preview = pageSide(jsonText) === 'left'
+      ? <div style={{ display: 'flex' }}>{frame(0, PAGE_W)}{facingPage}</div>
+      : <div style={{ display: 'flex' }}>{facingPage}{frame(0, PAGE_W)}</div>;
+  } else {
+    preview = frame(0, PAGE_W);
+  }
+
+  return (
+    <div style={{ background: 'var(--lt-bg)', minHeight: '100vh' }}>
+
+      {/* Sticky header */}
+      <div style={{
+        position: 'sticky', top: 0, zIndex: 10,
+        background: 'var(--ground)',
+        borderBottom: '1px solid var(--rule)',
+        padding: '14px 32px',
+        display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 16,
+      }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 20 }}>
+          <Link href="/admin" style={{
+            fontFamily: 'var(--font-mono)', fontSize: 9,
+            color: 'var(--paper-4)', letterSpacing: '0.14em',
+            textDecoration: 'none', textTransform: 'uppercase',
+          }}>
+            ← admin
+          </Link>
+          <div style={{ width: 1, height: 16, background: 'var(--rule-mid)' }} />
+          <span style={{ fontFamily: 'var(--font-serif)', fontSize: 18, color: 'var(--paper)' }}>
+            Template playground
+          </span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <select value={templateSet} onChange={e => setTemplateSet(e.target.value)} style={controlStyle}>
+            {catalog.templateSets.map(set => <option key={set} value={set}>set: {set}</option>)}
+          </select>
+          <button onClick={() => setView('spread')} style={toggleStyle(view === 'spread')}>Spread</button>
+          <button onClick={() => setView('single')} style={toggleStyle(view === 'single')}>Single</button>
+          <button onClick={() => setBleed(b => !b)} style={toggleStyle(bleed)}>Bleed</button>
+          <select value={zoom} onChange={e => setZoom(Number(e.target.value))} style={controlStyle}>
+            {ZOOMS.map(z => <option key={z} value={z}>{z * 100}%</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'flex-start' }}>
+
+        {/* Template list */}
+        <div style={{
+          width: 220, flexShrink: 0, padding: '24px 16px',
+          borderRight: '1px solid var(--rule)',
+          display: 'flex', flexDirection: 'column', gap: 2,
+        }}>
+          {catalog.templates.map(t => (
+            <button
+              key={t.name}
+              onClick={() => chooseTemplate(t.name)}
+              style={{
+                fontFamily: 'var(--font-mono)', fontSize: 11, letterSpacing: '0.04em',
+                textAlign: 'left', padding: '6px 8px', borderRadius: 2, cursor: 'pointer',
+                border: 'none', borderLeft: `2px solid ${t.name === templateName ? 'var(--neon-accent)' : 'transparent'}`,
+                background: t.name === templateName ? 'var(--ground-2)' : 'transparent',
+                color: t.name === templateName ? 'var(--paper)' : 'var(--paper-3)',
+                display: 'flex', justifyContent: 'space-between', gap: 8,
+              }}
+            >
+              <span>{t.name}</span>
+              {t.isSpread && <span style={{ color: 'var(--paper-5)' }}>2pp</span>}
+            </button>
+          ))}
+        </div>
+
+        {/* Data */}
+        <div style={{
+          width: 380, flexShrink: 0, padding: '24px 20px',
+          borderRight: '1px solid var(--rule)',
+          display: 'flex', flexDirection: 'column', gap: 16,
+        }}>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+            <span style={labelStyle}>Fixture</span>
+            <select
+              value={fixtureId}
+              onChange={e => chooseFixture(e.target.value)}
+              style={{ ...controlStyle, textTransform: 'none', letterSpacing: '0.02em', fontSize: 11 }}
+            >
+              {!fixtureId && <option value="">{fromSubmission ? 'submission data' : 'edited data'}</option>}
+              {current?.fixtures.map(f => <option key={f.id} value={f.id}>{f.description}</option>)}
+            </select>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+            <span style={labelStyle}>Submission ID</span>
+            <div style={{ display: 'flex', gap: 6 }}>
+              <input
+                value={submissionId}
+                onChange={e => setSubmissionId(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') loadSubmission(); }}
+                placeholder="content id"
+                style={{ ...controlStyle, flex: 1, textTransform: 'none', letterSpacing: '0.02em', fontSize: 11, cursor: 'text' }}
+              />
+              <button onClick={loadSubmission} disabled={loadingSubmission} style={toggleStyle(false)}>
+                {loadingSubmission ? 'Loading…' : 'Load'}
+              </button>
+            </div>
+            {submissionError && (
+              <span style={{ fontFamily: 'var(--font-mono)', fontSize: 11, color: 'var(--neon-accent)' }}>
+                {submissionError}
+              </span>
+            )}
+            {submission && fromSubmission && (
+              <span style={{ ...labelStyle, textTransform: 'none', letterSpacing: '0.04em' }}>
+                Prints as {submission.templateName}
+                {submission.eligible.length > 1 && ` · also fits ${submission.eligible.filter(n => n !== submission.templateName).join(', ')}`}
+              </span>
+            )}
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+            <span style={labelStyle}>Data</span>
+            <textarea
+              value={jsonText}
+              onChange={e => { setJsonText(e.target.value); if (!fromSubmission) setSource('custom'); }}
+              spellCheck={false}
+              style={{
+                fontFamily: 'var(--font-mono)', fontSize: 11, lineHeight: 1.5,
+                color: 'var(--paper-2)', background: 'var(--ground-2)',
+                border: `1px solid ${jsonError ? 'var(--neon-accent)' : 'var(--rule)'}`,
+                borderRadius: 2, padding: 10, minHeight: 520, resize: 'vertical',
+              }}
+            />
+            {jsonError && (
+              <span style={{ fontFamily: 'var(--font-mono)', fontSize: 11, color: 'var(--neon-accent)' }}>
+                {jsonError}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div style={{ flex: 1, padding: '32px', overflow: 'auto', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 16 }}>
+          {renderError && (
+            <p style={{ fontFamily: 'var(--font-mono)', fontSize: 12, color: 'var(--neon-accent)', letterSpacing: '0.06em', margin: 0 }}>
+              {renderError}
+            </p>
+          )}
+          {preview}
+        </div>
+
+      </div>
+    </div>
+  );
+}
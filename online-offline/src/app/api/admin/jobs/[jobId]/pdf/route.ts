@@ -0,0 +1,39 @@
+// src/app/api/admin/jobs/[jobId]/pdf/route.ts
+// Streams an assembled job's PDF out of the private magazines bucket.
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { createServiceClient, requireAdmin } from '@/lib/supabase/adminAuth'
+import { MAGAZINE_BUCKET, getJob } from '@/magazine/core/jobs'
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const auth = await requireAdmin('admin/jobs/pdf')
+  if ('response' in auth) return auth.response
+
+  const { jobId } = await params
+  const db = createServiceClient()
+  try {
+    const job = await getJob(db, jobId)
+    if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    if (job.status !== 'assembled' || !job.storage_path) {
+      return NextResponse.json({ error: `Job is ${job.status}, no PDF available` }, { status: 409 })
+    }
+
+    const { data: file, error } = await db.storage.from(MAGAZINE_BUCKET).download(job.storage_path)
+    if (error || !file) throw new Error(`PDF download failed: ${error?.message ?? 'no data'}`)
+
+    return new NextResponse(file.stream(), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(file.size),
+        'Content-Disposition': `attachment; filename="magazine-${job.curator_id}-${job.period_id}.pdf"`,
+      },
+    })
+  } catch (err) {
+    console.error('[admin/jobs/pdf] error:', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
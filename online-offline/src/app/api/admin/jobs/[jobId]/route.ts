@@ -0,0 +1,25 @@
+// src/app/api/admin/jobs/[jobId]/route.ts
+// Returns one generation job — status and per-page progress — for the admin page to poll.
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { createServiceClient, requireAdmin } from '@/lib/supabase/adminAuth'
+import { getJob } from '@/magazine/core/jobs'
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const auth = await requireAdmin('admin/jobs')
+  if ('response' in auth) return auth.response
+
+  const { jobId } = await params
+  try {
+    const job = await getJob(createServiceClient(), jobId)
+    if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    return NextResponse.json({ job })
+  } catch (err) {
+    console.error('[admin/jobs] error:', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
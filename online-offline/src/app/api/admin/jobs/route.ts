@@ -0,0 +1,61 @@
+// src/app/api/admin/jobs/route.ts
+// GET  ?periodId=<id>  → the latest generation job per curator for a period (default: active)
+// POST { curatorId, periodId?, output? } → enqueues a generation job for the worker to pick up
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { createServiceClient, requireAdmin } from '@/lib/supabase/adminAuth'
+import type { OutputMode } from '@/magazine/core/generator'
+import { enqueueJob, latestJobsForPeriod } from '@/magazine/core/jobs'
+
+async function resolvePeriodId(db: SupabaseClient, periodId: string | null | undefined): Promise<string | null> {
+  if (periodId) return periodId
+  const { data } = await db
+    .from('periods')
+    .select('id')
+    .eq('is_active', true)
+    .maybeSingle()
+  return (data as { id: string } | null)?.id ?? null
+}
+
+export async function GET(req: NextRequest) {
+  const auth = await requireAdmin('admin/jobs')
+  if ('response' in auth) return auth.response
+
+  const db = createServiceClient()
+  try {
+    const periodId = await resolvePeriodId(db, req.nextUrl.searchParams.get('periodId'))
+    if (!periodId) return NextResponse.json({ error: 'No active period' }, { status: 404 })
+    const jobs = await latestJobsForPeriod(db, periodId)
+    return NextResponse.json({ periodId, jobs })
+  } catch (err) {
+    console.error('[admin/jobs] error:', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const auth = await requireAdmin('admin/jobs')
+  if ('response' in auth) return auth.response
+
+  const body = await req.json().catch(() => null) as
+    { curatorId?: string; periodId?: string; output?: string } | null
+  if (!body?.curatorId) {
+    return NextResponse.json({ error: 'curatorId is required' }, { status: 400 })
+  }
+  if (body.output && body.output !== 'vector' && body.output !== 'raster') {
+    return NextResponse.json({ error: `Unknown output mode: ${body.output}` }, { status: 400 })
+  }
+
+  const db = createServiceClient()
+  try {
+    const periodId = await resolvePeriodId(db, body.periodId)
+    if (!periodId) return NextResponse.json({ error: 'No active period' }, { status: 404 })
+    const job = await enqueueJob(db, body.curatorId, periodId, auth.userId, (body.output as OutputMode | undefined) ?? 'vector')
+    return NextResponse.json({ job }, { status: 202 })
+  } catch (err) {
+    console.error('[admin/jobs] enqueue error:', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+// src/app/api/admin/templates/render/route.ts
+// POST { templateName, data, templateSet? } — the page HTML for one template with the
+// given data, as the PDF generator would load it, for the template playground. Fixture
+// images are inlined because the playground's iframes cannot serve them.
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { requireAdmin } from '@/lib/supabase/adminAuth'
+import { SPREAD_TEMPLATES, buildPageHtml } from '@/magazine/core/pageHtml'
+import {
+  BASE_TEMPLATE_SET,
+  FALLBACK_TEMPLATES,
+  TEMPLATE_FILE_MAP,
+  TemplateBundleError,
+  loadTemplateBundle,
+} from '@/magazine/core/templateBundle'
+import { inlineFixtureMedia } from '@/magazine/fixtures/templateFixtures'
+
+const KNOWN_TEMPLATES = new Set<string>([...Object.keys(TEMPLATE_FILE_MAP), ...FALLBACK_TEMPLATES])
+
+export async function POST(req: NextRequest) {
+  const auth = await requireAdmin('admin/templates/render')
+  if ('response' in auth) return auth.response
+
+  let body: { templateName?: unknown; data?: unknown; templateSet?: unknown }
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 })
+  }
+
+  const { templateName, data } = body
+  const templateSet = typeof body.templateSet === 'string' ? body.templateSet : BASE_TEMPLATE_SET
+  if (typeof templateName !== 'string' || !KNOWN_TEMPLATES.has(templateName)) {
+    return NextResponse.json({ error: `Unknown template: ${String(templateName)}` }, { status: 400 })
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return NextResponse.json({ error: 'data must be a JSON object' }, { status: 400 })
+  }
+
+  try {
+    const bundle = loadTemplateBundle(templateSet)
+    return NextResponse.json({
+      html: buildPageHtml(templateName, inlineFixtureMedia(data), bundle),
+      isSpread: SPREAD_TEMPLATES.has(templateName),
+    })
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    // A missing or stale bundle, or an unknown set, is the designer's to fix: say how
+    if (err instanceof TemplateBundleError) return NextResponse.json({ error: message }, { status: 409 })
+    console.error('[admin/templates/render] unhandled error:', err)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
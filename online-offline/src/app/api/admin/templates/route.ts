@@ -0,0 +1,30 @@
+// src/app/api/admin/templates/route.ts
+// GET — what the template playground (/admin/templates) offers: every mapped template
+// and fallback, whether it renders as a spread, the template sets, and the fixture data
+// for each template (src/magazine/fixtures/templateFixtures.ts).
+
+import { NextResponse } from 'next/server'
+
+import { requireAdmin } from '@/lib/supabase/adminAuth'
+import { SPREAD_TEMPLATES } from '@/magazine/core/pageHtml'
+import { BASE_TEMPLATE_SET, FALLBACK_TEMPLATES, TEMPLATE_FILE_MAP, listTemplateSets } from '@/magazine/core/templateBundle'
+import { TEMPLATE_FIXTURES } from '@/magazine/fixtures/templateFixtures'
+
+export async function GET() {
+  const auth = await requireAdmin('admin/templates')
+  if ('response' in auth) return auth.response
+
+  const templates = [...Object.keys(TEMPLATE_FILE_MAP), ...FALLBACK_TEMPLATES].map(name => ({
+    name,
+    isSpread: SPREAD_TEMPLATES.has(name),
+    fixtures: TEMPLATE_FIXTURES
+      .filter(f => f.templateName === name)
+      .map(({ id, description, data }) => ({ id, description, data })),
+  }))
+
+  return NextResponse.json({
+    templates,
+    templateSets: listTemplateSets(),
+    defaultTemplateSet: BASE_TEMPLATE_SET,
+  })
+}
@@ -0,0 +1,42 @@
+// src/app/api/admin/templates/submission/[contentId]/route.ts
+// GET ?set=<template set> — a real submission's template data for the template playground:
+// the template the selection logic gives it, the others it qualifies for, and the data
+// that template is rendered with. Uses the service role key to read any creator's content.
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { createServiceClient, requireAdmin } from '@/lib/supabase/adminAuth'
+import { fetchSubmissionItem } from '@/magazine/core/assembly'
+import { FIRST_CONTENT_PAGE } from '@/magazine/core/contentOrder'
+import { withTextMeasurer } from '@/magazine/core/generator'
+import { eligibleTemplates, selectTemplate } from '@/magazine/core/selectionLogic'
+import { BASE_TEMPLATE_SET, TemplateBundleError, loadTemplateBundle } from '@/magazine/core/templateBundle'
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ contentId: string }> }
+) {
+  const { contentId } = await params
+
+  const auth = await requireAdmin('admin/templates/submission')
+  if ('response' in auth) return auth.response
+
+  const db = createServiceClient()
+
+  try {
+    const bundle = loadTemplateBundle(req.nextUrl.searchParams.get('set') ?? BASE_TEMPLATE_SET)
+    const item = await withTextMeasurer(measure => fetchSubmissionItem(db, contentId, bundle, measure))
+    if (!item) return NextResponse.json({ error: `Submission not found: ${contentId}` }, { status: 404 })
+    const { templateName, data } = selectTemplate(item, FIRST_CONTENT_PAGE)
+    return NextResponse.json({
+      templateName,
+      eligible: eligibleTemplates(item).map(o => o.templateName),
+      data,
+    })
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    if (err instanceof TemplateBundleError) return NextResponse.json({ error: message }, { status: 409 })
+    console.error('[admin/templates/submission] unhandled error:', err)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+// src/app/api/curate/layouts/route.ts
+// GET ?creators=<id>,<id> — the layouts each creator's submission for the active period
+// can be printed with, default first, for the layout picker on /curate. Uses the service
+// role key because content is read across creators; only template names leave the route.
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { createServiceClient, requireUser } from '@/lib/supabase/adminAuth'
+import { fetchActivePeriodId, fetchLayoutOptions } from '@/magazine/core/assembly'
+
+export async function GET(req: NextRequest) {
+  const auth = await requireUser('curate/layouts')
+  if ('response' in auth) return auth.response
+
+  const creatorIds = (req.nextUrl.searchParams.get('creators') ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+
+  const db = createServiceClient()
+
+  try {
+    const periodId = await fetchActivePeriodId(db)
+    const layouts = await fetchLayoutOptions(db, creatorIds, periodId)
+    return NextResponse.json({ layouts })
+  } catch (err) {
+    console.error('[curate/layouts] unhandled error:', err)
+    const message = err instanceof Error ? err.message : String(err)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -19,6 +19,11 @@ import {
   Files
 } from 'lucide-react';
 import { getReceivedCommunications, selectCommunications } from '@/lib/supabase/communications';
+import {
+  communicationSelectionMethod,
+  printedCommunicationIds,
+  type CommunicationSelectionMethod,
+} from '@/lib/communicationSelection';
 
 interface ProfileData {
   first_name: string;
@@ -31,6 +36,7 @@ interface ReceivedCommunication {
   subject: string;
   sender_id: string;
   is_selected: boolean;
+  selection_method: string | null;
   profiles: ProfileData;
 }
 
@@ -49,7 +55,13 @@ interface ApiResponseData {
   [key: string]: unknown;
 }
 
-type SelectionMethod = 'all' | 'random' | 'select';
+type SelectionMethod = CommunicationSelectionMethod;
+
+const METHOD_LABELS: Record<SelectionMethod, string> = {
+  all: 'Include all',
+  random: 'Random selection',
+  select: 'Manual selection',
+};
 
 // Helper function to safely extract profile data
 function extractProfileData(profiles: unknown): ProfileData {
@@ -93,6 +105,8 @@ export default function CuratorCommunicationsPage() {
   const [receivedComms, setReceivedComms] = useState<ReceivedCommunication[]>([]);
   const [selectedComms, setSelectedComms] = useState<string[]>([]);
   const [selectionMethod, setSelectionMethod] = useState<SelectionMethod>('all');
+  // The choice last saved, which decides what prints (not unsaved changes on this page)
+  const [savedMethod, setSavedMethod] = useState<SelectionMethod | null>(null);
   const [currentPeriod, setCurrentPeriod] = useState<Period | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -144,6 +158,7 @@ export default function CuratorCommunicationsPage() {
                 subject: typeof item.subject === 'string' ? item.subject : '',
                 sender_id: typeof item.sender_id === 'string' ? item.sender_id : '',
                 is_selected: Boolean(item.is_selected),
+                selection_method: typeof item.selection_method === 'string' ? item.selection_method : null,
                 profiles
               });
             }
@@ -151,13 +166,21 @@ export default function CuratorCommunicationsPage() {
         }
         
         setReceivedComms(typedReceivedComms);
+        const savedMethod = communicationSelectionMethod(result.selectionMethod, typedReceivedComms);
+        setSavedMethod(savedMethod);
         
         // Calculate initial page count
         const initialPageCount = calculatePageCount(typedReceivedComms.length);
         setPageCount(initialPageCount);
         
-        // Set default selection method based on count
-        if (typedReceivedComms.length > MAX_COMMUNICATIONS_PER_PAGE) {
+        // Start from the saved choice; otherwise default based on count
+        if (savedMethod) {
+          setSelectionMethod(savedMethod);
+          if (savedMethod === 'select') {
+            setSelectedComms(typedReceivedComms.filter(c => c.is_selected).map(c => c.id));
+          }
+          setPageCount(savedMethod === 'all' ? initialPageCount : 1);
+        } else if (typedReceivedComms.length > MAX_COMMUNICATIONS_PER_PAGE) {
           setSelectionMethod('random');
         } else {
           setSelectionMethod('all');
@@ -250,6 +273,13 @@ export default function CuratorCommunicationsPage() {
         throw new Error(result.error ? String(result.error) : 'Failed to save selection');
       }
       
+      const selected = new Set(result.selected ?? []);
+      setSavedMethod(selectionMethod);
+      setReceivedComms(prev => prev.map(comm => ({
+        ...comm,
+        is_selected: selected.has(comm.id),
+        selection_method: selected.has(comm.id) ? selectionMethod : null,
+      })));
       setSuccess(true);
       
       // Store the page count in localStorage to use on the curation page
@@ -268,6 +298,9 @@ export default function CuratorCommunicationsPage() {
     }
   };
   
+  // Print status reflects the saved selection, not unsaved changes on this page
+  const printedIds = printedCommunicationIds(receivedComms, savedMethod);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 p-6">
@@ -384,7 +417,7 @@ export default function CuratorCommunicationsPage() {
                           </div>
                         </div>
                         <span className="text-sm text-gray-500 block">
-                          Randomly select {MAX_COMMUNICATIONS_PER_PAGE} communications from all those received (uses 1 slot in your magazine).
+                          Randomly select {MAX_COMMUNICATIONS_PER_PAGE} communications from all those received (uses 1 slot in your magazine). The same sample is drawn each time you save.
                         </span>
                       </Label>
                     </div>
@@ -467,6 +500,36 @@ export default function CuratorCommunicationsPage() {
                   </div>
                 )}
 
+                {/* What the saved selection puts in print */}
+                <div className="mt-6">
+                  <h3 className="text-lg font-medium mb-1">In Print</h3>
+                  <p className="text-sm text-gray-500 mb-4">
+                    {savedMethod
+                      ? `Saved selection: ${METHOD_LABELS[savedMethod]}. ${printedIds.size} of ${receivedComms.length} will appear in your magazine.`
+                      : `No selection saved yet — all ${receivedComms.length} will appear in your magazine.`}
+                  </p>
+                  <div className="space-y-2 max-h-80 overflow-y-auto pr-2">
+                    {receivedComms.map(comm => {
+                      const inPrint = printedIds.has(comm.id);
+                      return (
+                        <div key={comm.id} className="flex items-center justify-between gap-3 p-3 border border-gray-200 rounded-lg">
+                          <div className="min-w-0">
+                            <div className="text-sm text-gray-600">
+                              From: {comm.profiles.first_name} {comm.profiles.last_name}
+                            </div>
+                            <div className="font-medium truncate">{comm.subject}</div>
+                          </div>
+                          <span className={`flex-shrink-0 inline-flex items-center px-2 py-1 text-xs rounded-full ${
+                            inPrint ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500'
+                          }`}>
+                            {inPrint ? 'In print' : 'Not printed'}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
                 {/* Summary of selection impact */}
                 <div className="mt-6 bg-gray-50 border border-gray-200 rounded-lg p-4">
                   <div className="flex items-center justify-between">
@@ -5,10 +5,13 @@ import { useSupabase } from '@/lib/supabase/useSupabase';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import IntegratedCollabsSection from '@/components/IntegratedCollabsSection';
+import RunningOrderSection from '@/components/RunningOrderSection';
 
 import { getCurrentPeriod } from '@/lib/supabase/content';
 import { saveCuratorSelections } from '@/lib/supabase/curation';
 import { sendFollowRequest } from '@/lib/supabase/profiles';
+import { COMMUNICATIONS_SOURCE, isRunningOrder, reconcileRunningOrder, type RunningOrderEntry } from '@/lib/runningOrder';
+import type { TemplateOption } from '@/magazine/core/selectionLogic';
 
 // ── Interfaces ────────────────────────────────────────────────────────────────
 
@@ -157,9 +160,13 @@ export default function CurationInterface() {
   const [pendingRequestMap, setPendingRequestMap] = useState<Record<string, boolean>>({});
   const [expandedCards, setExpandedCards] = useState<Record<string, boolean>>({});
   const [accessibleProfiles, setAccessibleProfiles] = useState<string[]>([]);
+  const [runningOrder, setRunningOrder] = useState<RunningOrderEntry[]>([]);
+  const [collabTemplateNames, setCollabTemplateNames] = useState<Record<string, string>>({});
+  const [creatorLayouts, setCreatorLayouts] = useState<Record<string, string>>({});
+  const [layoutOptions, setLayoutOptions] = useState<Record<string, TemplateOption[]>>({});
 
   // ── Visual-only UI state ───────────────────────────────────────────────────
-  const [activeSection, setActiveSection] = useState<'contributors' | 'collabs' | 'comms' | 'ads'>('contributors');
+  const [activeSection, setActiveSection] = useState<'contributors' | 'collabs' | 'comms' | 'ads' | 'order'>('contributors');
   const [savePress, setSavePress] = useState<'rest' | 'pressing' | 'releasing'>('rest');
 
   // ── CustomEvent listener from IntegratedCollabsSection (unchanged) ─────────
@@ -185,6 +192,51 @@ export default function CurationInterface() {
     selectedCommunications.length + collabSlotCount;
   const remainingContent = maxContentPieces - usedSlots;
 
+  // Running order over the current selections: saved order first, new picks appended.
+  const selectedSources = [
+    ...selectedCreators.map(id => `creator:${id}`),
+    ...selectedCollabs.filter(id => id.trim() !== '').map(id => `collab:${id}`),
+    ...(selectedCommunications.length > 0 ? [COMMUNICATIONS_SOURCE] : []),
+    ...selectedAds.map(id => `campaign:${id}`),
+  ];
+  const currentRunningOrder = reconcileRunningOrder(runningOrder, selectedSources);
+  const pinnedCount = currentRunningOrder.filter(e => e.pinned).length;
+
+  // Layout options are fetched for the Order tab, once per selected creator.
+  useEffect(() => {
+    if (activeSection !== 'order') return;
+    const missing = selectedCreators.filter(id => !(id in layoutOptions));
+    if (missing.length === 0) return;
+    fetch(`/api/curate/layouts?creators=${missing.map(encodeURIComponent).join(',')}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(({ layouts }: { layouts: Record<string, TemplateOption[]> }) => {
+        // Creators without a submission yet get no options rather than being refetched.
+        setLayoutOptions(prev => ({
+          ...prev,
+          ...Object.fromEntries(missing.map(id => [id, layouts[id] ?? []])),
+        }));
+      })
+      .catch(err => console.error('Error fetching layout options:', err));
+  }, [activeSection, selectedCreators, layoutOptions]);
+
+  const layoutsFor = (source: string) => {
+    if (!source.startsWith('creator:')) return undefined;
+    const creatorId = source.slice('creator:'.length);
+    const options = layoutOptions[creatorId];
+    if (!options?.length) return undefined;
+    return { options, value: creatorLayouts[creatorId] ?? options[0].templateName };
+  };
+
+  // The default layout is stored as no override, so it follows the submission if it changes.
+  const changeLayout = (source: string, templateName: string) => {
+    const creatorId = source.slice('creator:'.length);
+    setCreatorLayouts(prev => {
+      const next = { ...prev, [creatorId]: templateName };
+      if (layoutOptions[creatorId]?.[0]?.templateName === templateName) delete next[creatorId];
+      return next;
+    });
+  };
+
   // ── Data helpers (unchanged) ───────────────────────────────────────────────
   const loadAccessibleProfiles = useCallback(async () => {
     try {
@@ -303,6 +355,8 @@ export default function CurationInterface() {
         selected_collaborations: selectedCollabs,
         selected_communications: selectedCommunications,
         selected_ads: selectedAds,
+        running_order: currentRunningOrder,
+        creator_layouts: creatorLayouts,
       });
 
       if (!result.success) throw new Error(result.error || 'Failed to save selections');
@@ -354,6 +408,8 @@ export default function CurationInterface() {
     setSelectedCreators([]);
     setSelectedAds([]);
     setSelectedCommunications([]);
+    setRunningOrder([]);
+    setCreatorLayouts({});
     localStorage.removeItem('temp_selected_collabs');
     localStorage.removeItem('selected_cities');
 
@@ -367,12 +423,37 @@ export default function CurationInterface() {
           .eq('curator_id', user.id).eq('period_id', currentPeriod.id);
         await supabase.from('curator_campaign_selections').delete()
           .eq('curator_id', user.id).eq('period_id', currentPeriod.id);
+        await supabase.from('curator_running_orders').delete()
+          .eq('curator_id', user.id).eq('period_id', currentPeriod.id);
       }
     };
     cleanupDB();
     alert('All selections have been reset');
   };
 
+  // ── Running order labels ───────────────────────────────────────────────────
+  // Collab selections are virtual ids (community_<template>, local_<template>_<City>)
+  // or a private collab id, so their label comes from the template name.
+  const collabLabel = (id: string) => {
+    if (id.startsWith('community_')) {
+      return `${collabTemplateNames[id.slice('community_'.length)] || 'Collab'} · community`;
+    }
+    if (id.startsWith('local_')) {
+      const [, templateId, ...city] = id.split('_');
+      return `${collabTemplateNames[templateId] || 'Collab'} · ${city.join(' ')}`;
+    }
+    const templateId = privateCollabTemplateMap[id];
+    return `${(templateId && collabTemplateNames[templateId]) || 'Collab'} · private`;
+  };
+
+  const runningOrderLabel = (source: string) => {
+    if (source === COMMUNICATIONS_SOURCE) return 'Communications page';
+    const [kind, id] = [source.slice(0, source.indexOf(':')), source.slice(source.indexOf(':') + 1)];
+    if (kind === 'creator') return creators.find(c => c.id === id)?.name || 'Contributor';
+    if (kind === 'campaign') return ads.find(a => a.id === id)?.name || 'Campaign';
+    return collabLabel(id);
+  };
+
   // ── Price calculation ──────────────────────────────────────────────────────
   const calculatePrice = () => baseQuarterlyPrice - (selectedAds.length * adDiscountAmount);
 
@@ -500,6 +581,17 @@ export default function CurationInterface() {
           setAds([]);
         }
 
+        try {
+          const { data: templateData } = await supabase.from('collab_templates').select('id, name');
+          if (templateData) {
+            setCollabTemplateNames(Object.fromEntries(
+              templateData.map((t: { id: string; name: string }) => [t.id, t.name])
+            ));
+          }
+        } catch (err) {
+          console.error('Error fetching collab template names:', err);
+        }
+
         setCommunications([
           { id: 'comm1', subject: 'Thoughts on my latest series', sender_id: 'user1', profiles: { first_name: 'Sarah', last_name: 'Chen', avatar_url: '/api/placeholder/400/400?text=SC' } },
           { id: 'comm2', subject: 'Collaboration opportunity', sender_id: 'user2', profiles: { first_name: 'Marcus', last_name: 'Johnson', avatar_url: '/api/placeholder/400/400?text=MJ' } },
@@ -507,16 +599,28 @@ export default function CurationInterface() {
 
         if (debugUser && activePeriodId) {
           try {
-            const [creatorSel, campaignSel, collabSel, commSel] = await Promise.all([
-              supabase.from('curator_creator_selections').select('creator_id').eq('curator_id', debugUser.id).eq('period_id', activePeriodId),
+            const [creatorSel, campaignSel, collabSel, commSel, orderSel] = await Promise.all([
+              supabase.from('curator_creator_selections').select('creator_id, layout').eq('curator_id', debugUser.id).eq('period_id', activePeriodId),
               supabase.from('curator_campaign_selections').select('campaign_id').eq('curator_id', debugUser.id).eq('period_id', activePeriodId),
               supabase.from('curator_collab_selections').select('collab_id, source_id').eq('curator_id', debugUser.id).eq('period_id', activePeriodId),
               supabase.from('curator_communication_selections').select('include_communications').eq('curator_id', debugUser.id).eq('period_id', activePeriodId).maybeSingle(),
+              supabase.from('curator_running_orders').select('entries').eq('curator_id', debugUser.id).eq('period_id', activePeriodId).maybeSingle(),
             ]);
-            if (creatorSel.data) setSelectedCreators(creatorSel.data.map((s: { creator_id: string }) => s.creator_id).filter(Boolean));
+            if (creatorSel.data) {
+              setSelectedCreators(creatorSel.data.map((s: { creator_id: string }) => s.creator_id).filter(Boolean));
+              setCreatorLayouts(Object.fromEntries(creatorSel.data
+                .filter((s: { layout: string | null }) => s.layout)
+                .map((s: { creator_id: string; layout: string }) => [s.creator_id, s.layout])));
+            }
             if (campaignSel.data) setSelectedAds(campaignSel.data.map((s: { campaign_id: string }) => s.campaign_id).filter(Boolean));
             if (collabSel.data) setSelectedCollabs(collabSel.data.map((s: { source_id?: string; collab_id: string }) => s.source_id || s.collab_id).filter(Boolean));
             if (commSel.data?.include_communications) setSelectedCommunications(['communications']);
+            if (orderSel.data && isRunningOrder(orderSel.data.entries)) {
+              // Stored against real collab ids; the page selects by source id.
+              const sourceIds = new Map((collabSel.data || []).map((s: { source_id?: string; collab_id: string }) =>
+                [`collab:${s.collab_id}`, `collab:${s.source_id || s.collab_id}`]));
+              setRunningOrder(orderSel.data.entries.map(e => ({ ...e, source: sourceIds.get(e.source) ?? e.source })));
+            }
           } catch (err) {
             console.error('Error loading selections from DB:', err);
           }
@@ -642,7 +746,8 @@ export default function CurationInterface() {
                 activeSection === 'contributors' ? 'Search contributors…' :
                 activeSection === 'collabs'       ? 'Search collaborations…' :
                 activeSection === 'comms'         ? 'Search communications…' :
-                                                    'Search campaigns…'
+                activeSection === 'ads'           ? 'Search campaigns…' :
+                                                    'Search running order…'
               }
               value={searchTerm}
               onChange={e => setSearchTerm(e.target.value)}
@@ -718,6 +823,7 @@ export default function CurationInterface() {
             { id: 'collabs' as const,      label: 'Collabs',      count: collabSlotCount },
             { id: 'comms' as const,        label: 'Comms',        count: selectedCommunications.length },
             { id: 'ads' as const,          label: 'Ads',          count: selectedAds.length },
+            { id: 'order' as const,        label: 'Order',        count: pinnedCount },
           ]).map(({ id, label, count }) => (
             <button
               key={id}
@@ -1056,6 +1162,23 @@ export default function CurationInterface() {
                 </div>
               )}
 
+              {/* ══ RUNNING ORDER ══ */}
+              {activeSection === 'order' && (
+                <div>
+                  <div style={{ fontFamily: 'var(--font-mono)', fontSize: '8px', letterSpacing: '0.18em', textTransform: 'uppercase', color: 'var(--lt-text-3)', marginBottom: '10px' }}>
+                    Running order{pinnedCount > 0 ? ` · ${pinnedCount} pinned` : ''}
+                  </div>
+                  <RunningOrderSection
+                    order={currentRunningOrder}
+                    labelFor={runningOrderLabel}
+                    onChange={setRunningOrder}
+                    layoutsFor={layoutsFor}
+                    onLayoutChange={changeLayout}
+                    searchTerm={searchTerm}
+                  />
+                </div>
+              )}
+
             </div>
           );
         })()}
@@ -0,0 +1,183 @@
+'use client';
+// RunningOrderSection.tsx
+import React, { useState } from 'react';
+import { moveRunningOrderEntry, type RunningOrderEntry } from '@/lib/runningOrder';
+import type { TemplateOption } from '@/magazine/core/selectionLogic';
+
+interface LayoutChoice {
+  options: TemplateOption[];
+  value: string;
+}
+
+interface RunningOrderSectionProps {
+  order: RunningOrderEntry[];
+  labelFor: (source: string) => string;
+  onChange: (order: RunningOrderEntry[]) => void;
+  // Layouts a piece can take; only pieces with more than one get a picker
+  layoutsFor?: (source: string) => LayoutChoice | undefined;
+  onLayoutChange?: (source: string, templateName: string) => void;
+  searchTerm?: string;
+}
+
+const KIND_COLORS: Record<string, string> = {
+  creator: 'var(--neon-blue)',
+  collab: 'var(--neon-purple)',
+  campaign: 'var(--neon-green)',
+  communications: 'var(--neon-amber)',
+};
+
+const KIND_LABELS: Record<string, string> = {
+  creator: 'Contributor',
+  collab: 'Collab',
+  campaign: 'Campaign',
+  communications: 'Comms',
+};
+
+const LAYOUT_LABELS: Record<string, string> = {
+  SpreadPanorama: 'Panorama',
+  Spread: 'Image + text',
+  TextSubmission: 'One page',
+  TextSpread: 'Spread',
+  PoetryPage: 'Poem',
+};
+
+const kindOf = (source: string) => source.split(':')[0];
+
+const RunningOrderSection: React.FC<RunningOrderSectionProps> = ({
+  order,
+  labelFor,
+  onChange,
+  layoutsFor,
+  onLayoutChange,
+  searchTerm = '',
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => onChange(moveRunningOrderEntry(order, from, to));
+  const togglePin = (index: number) =>
+    onChange(order.map((entry, i) => (i === index ? { ...entry, pinned: !entry.pinned } : entry)));
+
+  // Filtering keeps each row's real index so moves still address the full order.
+  const rows = order
+    .map((entry, index) => ({ entry, index, label: labelFor(entry.source) }))
+    .filter(row => searchTerm === '' || row.label.toLowerCase().includes(searchTerm.toLowerCase()));
+
+  const arrowStyle = (enabled: boolean): React.CSSProperties => ({
+    width: 20, height: 20, padding: 0, flexShrink: 0,
+    background: 'transparent', border: '1px solid rgba(235,225,205,0.1)', borderRadius: 2,
+    fontFamily: 'var(--font-mono)', fontSize: 10, lineHeight: 1,
+    color: enabled ? 'var(--lt-text-2)' : 'rgba(235,225,205,0.15)',
+    cursor: enabled ? 'pointer' : 'default',
+  });
+
+  return (
+    <div>
+      <div style={{ fontFamily: 'var(--font-mono)', fontSize: 8, letterSpacing: '0.06em', color: 'var(--lt-text-2)', lineHeight: 1.5, marginBottom: 12 }}>
+        Drag a piece to where it should appear in your edition. Pinned pieces keep their place;
+        the rest are arranged automatically around them so spreads open on facing pages.
+      </div>
+
+      {order.length === 0 ? (
+        <div style={{ padding: 32, textAlign: 'center', fontFamily: 'var(--font-serif)', fontStyle: 'italic', fontSize: 14, color: 'var(--lt-text-3)' }}>
+          Nothing selected yet
+        </div>
+      ) : rows.length === 0 ? (
+        <p style={{ fontFamily: 'var(--font-serif)', fontStyle: 'italic', fontSize: 13, color: 'var(--lt-text-3)', padding: '8px 0' }}>
+          Nothing in your running order matches &ldquo;{searchTerm}&rdquo;.
+        </p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          {rows.map(({ entry, index, label }) => {
+            const kind = kindOf(entry.source);
+            const neon = KIND_COLORS[kind] ?? 'var(--lt-text-3)';
+            const isOver = overIndex === index && dragIndex !== null && dragIndex !== index;
+            const layouts = layoutsFor?.(entry.source);
+            return (
+              <div
+                key={entry.source}
+                draggable
+                onDragStart={e => { setDragIndex(index); e.dataTransfer.effectAllowed = 'move'; }}
+                onDragOver={e => { e.preventDefault(); setOverIndex(index); }}
+                onDragLeave={() => setOverIndex(current => (current === index ? null : current))}
+                onDrop={e => {
+                  e.preventDefault();
+                  if (dragIndex !== null) move(dragIndex, index);
+                  setDragIndex(null);
+                  setOverIndex(null);
+                }}
+                onDragEnd={() => { setDragIndex(null); setOverIndex(null); }}
+                style={{
+                  display: 'flex', alignItems: 'center', gap: 10, padding: '9px 10px',
+                  background: entry.pinned ? 'rgba(235,225,205,0.05)' : 'rgba(235,225,205,0.02)',
+                  border: '1px solid rgba(235,225,205,0.08)',
+                  borderLeft: `2px solid ${neon}`,
+                  boxShadow: isOver ? '0 -2px 0 var(--lt-text-2)' : 'none',
+                  borderRadius: 1, cursor: 'grab', userSelect: 'none',
+                  opacity: dragIndex === index ? 0.4 : 1,
+                  transition: 'background 0.1s, opacity 0.1s',
+                }}
+              >
+                <span style={{ fontFamily: 'var(--font-mono)', fontSize: 10, color: 'var(--lt-text-3)', minWidth: 16, textAlign: 'right', flexShrink: 0 }}>
+                  {index + 1}
+                </span>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontFamily: 'var(--font-mono)', fontSize: 7, letterSpacing: '0.14em', textTransform: 'uppercase', color: neon, opacity: 0.7 }}>
+                    {KIND_LABELS[kind] ?? kind}
+                  </div>
+                  <div style={{ fontFamily: 'var(--font-serif)', fontSize: 13, color: 'var(--lt-text)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {label}
+                  </div>
+                  {layouts && layouts.options.length > 1 && (
+                    <div style={{ display: 'flex', gap: 4, marginTop: 5, flexWrap: 'wrap' }}>
+                      {layouts.options.map(option => {
+                        const isChosen = option.templateName === layouts.value;
+                        return (
+                          <button
+                            key={option.templateName}
+                            onClick={() => onLayoutChange?.(entry.source, option.templateName)}
+                            style={{
+                              padding: '3px 6px',
+                              background: isChosen ? 'rgba(235,225,205,0.08)' : 'transparent',
+                              border: `1px solid ${isChosen ? 'rgba(235,225,205,0.3)' : 'rgba(235,225,205,0.08)'}`,
+                              borderRadius: 2,
+                              fontFamily: 'var(--font-mono)', fontSize: 7, letterSpacing: '0.1em', textTransform: 'uppercase',
+                              color: isChosen ? 'var(--lt-text)' : 'var(--lt-text-3)',
+                              cursor: 'pointer',
+                            }}
+                          >
+                            {LAYOUT_LABELS[option.templateName] ?? option.templateName} · {option.pageCount}p
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => togglePin(index)}
+                  title={entry.pinned ? 'Pinned here — click to let it move' : 'Arranged automatically — click to pin here'}
+                  style={{
+                    padding: '4px 7px', flexShrink: 0,
+                    background: 'transparent',
+                    border: `1px solid ${entry.pinned ? 'rgba(224,168,48,0.35)' : 'rgba(235,225,205,0.1)'}`,
+                    borderRadius: 2,
+                    fontFamily: 'var(--font-mono)', fontSize: 7, letterSpacing: '0.14em', textTransform: 'uppercase',
+                    color: entry.pinned ? 'var(--neon-amber)' : 'var(--lt-text-3)',
+                    textShadow: entry.pinned ? '0 0 6px var(--glow-amber)' : 'none',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {entry.pinned ? 'Pinned' : 'Auto'}
+                </button>
+                <button onClick={() => move(index, index - 1)} disabled={index === 0} style={arrowStyle(index > 0)} aria-label="Move up">↑</button>
+                <button onClick={() => move(index, index + 1)} disabled={index === order.length - 1} style={arrowStyle(index < order.length - 1)} aria-label="Move down">↓</button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunningOrderSection;
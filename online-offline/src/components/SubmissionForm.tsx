@@ -3,6 +3,7 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { saveContent, getCurrentPeriod } from '@/lib/supabase/content';
 import { TEXT_SUBMISSION_MAX_WORDS, TEXT_SUBMISSION_WARN_WORDS } from '@/lib/constants/submission';
 import { uploadMedia } from '@/lib/supabase/storage';
+import { validateListenUrl } from '@/lib/listenUrl';
 import Link from 'next/link';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { useSupabase } from '@/lib/supabase/useSupabase';
@@ -81,6 +82,11 @@ export default function SubmissionForm() {
     focal_x: 50, focal_y: 50, aspect_ratio: null,
   }]);
   const [featureEntryId, setFeatureEntryId] = useState<string | number | null>(null);
+  const [listenUrl, setListenUrl]         = useState('');
+  const [listenUrlError, setListenUrlError] = useState('');
+
+  // ── creator state ────────────────────────────────────────────────────────────
+  const [creatorType, setCreatorType] = useState<string | null>(null);
 
   // ── period / deadline state ──────────────────────────────────────────────────
   const [timeLeft, setTimeLeft]     = useState({ days: 0, hours: 0 });
@@ -117,6 +123,7 @@ export default function SubmissionForm() {
         setSubmissionType(data.type);
         setStatus(data.status);
         if (data.page_title) setPageTitle(data.page_title);
+        if (data.listen_url) setListenUrl(data.listen_url);
         if (data.format === 'text') {
           const bodyEntry = data.content_entries?.[0];
           if (bodyEntry?.body) setTextBody(bodyEntry.body);
@@ -145,6 +152,22 @@ export default function SubmissionForm() {
     loadDraft();
   }, [draftId, supabase]);
 
+  // ── load creator type (music submissions carry a listen link) ──────────────
+  useEffect(() => {
+    const loadCreatorType = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('content_type')
+        .eq('id', user.id)
+        .maybeSingle();
+      if (error) { console.error('Error loading creator type:', error); return; }
+      setCreatorType((data as { content_type?: string } | null)?.content_type ?? null);
+    };
+    loadCreatorType();
+  }, [supabase]);
+
   // ── load period ─────────────────────────────────────────────────────────────
   useEffect(() => {
     const loadPeriod = async () => {
@@ -252,6 +275,18 @@ export default function SubmissionForm() {
     }));
   }, [entries]);
 
+  // ── listen link ──────────────────────────────────────────────────────────────
+  // Drafts may leave the link empty; a submitted music piece must have a valid one.
+  const resolveListenUrl = (required: boolean): { ok: true; url: string | null } | { ok: false } => {
+    if (!isMusic) return { ok: true, url: null };
+    if (!listenUrl.trim() && !required) return { ok: true, url: null };
+    const result = validateListenUrl(listenUrl);
+    if (!result.ok) { setListenUrlError(result.error); return { ok: false }; }
+    setListenUrlError('');
+    setListenUrl(result.url);
+    return { ok: true, url: result.url };
+  };
+
   // ── save draft ───────────────────────────────────────────────────────────────
   const isSavingRef = useRef(false);
   const handleSaveDraft = async () => {
@@ -264,6 +299,8 @@ export default function SubmissionForm() {
     if (format === 'text' && (!hasTitle || !hasTextContent)) { isSavingRef.current = false; return; }
     // Image submissions require at least a title or an image
     if (format === 'image' && !hasTitle && !hasImageContent) { isSavingRef.current = false; return; }
+    const listen = resolveListenUrl(false);
+    if (!listen.ok) { isSavingRef.current = false; return; }
     setSaveStatus('saving');
     try {
       let entriesToSave;
@@ -272,7 +309,7 @@ export default function SubmissionForm() {
       } else {
         entriesToSave = entries.map(en => ({ ...en, imageUrl: en.permanentUrl || en.imageUrl }));
       }
-      const result = await saveContent(supabase, submissionType, status, entriesToSave, draftId || undefined, pageTitle, format);
+      const result = await saveContent(supabase, submissionType, status, entriesToSave, draftId || undefined, pageTitle, format, listen.url);
       if (result.success) {
         setSaveStatus('saved');
         setTimeout(() => setSaveStatus(''), 2000);
@@ -295,6 +332,8 @@ export default function SubmissionForm() {
 
   // ── submit ───────────────────────────────────────────────────────────────────
   const handleSubmit = async () => {
+    const listen = resolveListenUrl(true);
+    if (!listen.ok) return;
     try {
       let entriesToSave;
       if (format === 'text') {
@@ -302,7 +341,7 @@ export default function SubmissionForm() {
       } else {
         entriesToSave = entries.map(en => ({ ...en, imageUrl: en.permanentUrl || en.imageUrl }));
       }
-      const result = await saveContent(supabase, submissionType, 'submitted', entriesToSave, draftId || undefined, pageTitle, format);
+      const result = await saveContent(supabase, submissionType, 'submitted', entriesToSave, draftId || undefined, pageTitle, format, listen.url);
       if (result.success) setStatus('submitted');
       else alert('Error submitting: ' + (result.error || 'Unknown error'));
     } catch (err) {
@@ -318,6 +357,7 @@ export default function SubmissionForm() {
   };
 
   // ── derived ──────────────────────────────────────────────────────────────────
+  const isMusic = creatorType === 'music';
   const textWordCount = textBody.trim() ? textBody.trim().split(/\s+/).filter(Boolean).length : 0;
   const entry = entries[currentSlide] ?? entries[0];
   const hasImage = !!entry?.imageUrl;
@@ -405,6 +445,43 @@ export default function SubmissionForm() {
           </div>
           <div style={{ height: 1, margin: '12px 22px 0', background: 'var(--rule-mid)' }} />
 
+          {/* Listen link — music only, printed as a QR code on the magazine page */}
+          {isMusic && (
+            <div style={{ padding: '14px 22px 0' }}>
+              <div style={{
+                fontFamily: 'var(--font-mono)', fontSize: 9, letterSpacing: '0.12em',
+                textTransform: 'uppercase', color: 'var(--paper-5)', marginBottom: 5,
+              }}>
+                Listen link
+              </div>
+              <input
+                value={listenUrl}
+                onChange={e => { setListenUrl(e.target.value); setListenUrlError(''); }}
+                onBlur={() => {
+                  if (!listenUrl.trim()) return;
+                  const result = validateListenUrl(listenUrl);
+                  setListenUrlError(result.ok ? '' : result.error);
+                }}
+                disabled={status === 'submitted'}
+                placeholder="open.spotify.com/track/…"
+                inputMode="url"
+                style={{
+                  width: '100%', background: 'transparent', outline: 'none',
+                  border: 'none', borderBottom: `1px solid ${listenUrlError ? 'var(--neon-accent)' : 'var(--rule-mid)'}`,
+                  padding: '4px 0 6px',
+                  fontFamily: 'var(--font-mono)', fontSize: 12, color: 'var(--paper)',
+                  letterSpacing: '0.02em', caretColor: 'var(--neon-accent)',
+                }}
+              />
+              <div style={{
+                fontFamily: 'var(--font-mono)', fontSize: 9, letterSpacing: '0.06em', marginTop: 6,
+                color: listenUrlError ? 'var(--neon-accent)' : 'var(--paper-5)',
+              }}>
+                {listenUrlError || 'Spotify, Bandcamp, SoundCloud, Apple Music or YouTube — readers scan it from the page'}
+              </div>
+            </div>
+          )}
+
           {/* Format toggle */}
           <div style={{ padding: '14px 22px 0' }}>
             <div style={{ display: 'flex', gap: 6 }}>
@@ -539,7 +616,7 @@ export default function SubmissionForm() {
                       : 'none',
                   transition: 'color 0.15s',
                 }}>
-                  {textWordCount} / 800 words
+                  {textWordCount} / {TEXT_SUBMISSION_MAX_WORDS} words
                 </div>
               </div>
             </div>
@@ -1043,7 +1120,8 @@ export default function SubmissionForm() {
 
               {/* Submit button */}
               {(() => {
-                const overLimit = format === 'text' && textWordCount > TEXT_SUBMISSION_MAX_WORDS;
+                const overLimit = (format === 'text' && textWordCount > TEXT_SUBMISSION_MAX_WORDS)
+                  || (isMusic && !validateListenUrl(listenUrl).ok);
                 return (
                   <button
                     disabled={overLimit}
@@ -0,0 +1,67 @@
+// src/lib/communicationSelection.ts
+// Which of a curator's communications go to print. The curate communications page records
+// a method on the curator's communication settings (curator_communication_selections.
+// selection_method): 'all', 'select' (hand-picked) or 'random' (a sample), and marks the
+// chosen messages is_selected. Shared by that page, which shows what will print, and the
+// magazine generator, which prints exactly that.
+
+import { seedFrom, seededRandom } from './seededSample'
+
+export type CommunicationSelectionMethod = 'all' | 'random' | 'select'
+
+// Random and hand-picked selections are capped; 'all' prints everything
+export const MAX_SELECTED_COMMUNICATIONS = 10
+
+export interface SelectableCommunication {
+  id: string
+  is_selected?: boolean | null
+  selection_method?: string | null
+}
+
+function asSelectionMethod(method: string | null | undefined): CommunicationSelectionMethod | null {
+  return method === 'all' || method === 'random' || method === 'select' ? method : null
+}
+
+// The method the curator last saved, or null when they never chose one. A choice saved
+// before the method was kept in the settings is read off its selected messages.
+export function communicationSelectionMethod(
+  savedMethod: string | null | undefined,
+  communications: SelectableCommunication[]
+): CommunicationSelectionMethod | null {
+  return asSelectionMethod(savedMethod)
+    ?? asSelectionMethod(communications.find(c => c.is_selected)?.selection_method)
+}
+
+// Ids of the communications that print. 'all' — or no choice made yet — takes every
+// submitted message, including ones that arrived after the choice was saved; otherwise
+// exactly the selected ones, which may be none.
+export function printedCommunicationIds(
+  communications: SelectableCommunication[],
+  method: CommunicationSelectionMethod | null
+): Set<string> {
+  const printed = method === null || method === 'all'
+    ? communications
+    : communications.filter(c => c.is_selected)
+  return new Set(printed.map(c => c.id))
+}
+
+// ─── Random sample ────────────────────────────────────────────────────────────
+
+// A reproducible sample of up to `size` ids: the same messages give the same sample
+// whatever order they are fetched in.
+export function sampleCommunicationIds(
+  ids: string[],
+  curatorId: string,
+  periodId: string,
+  size = MAX_SELECTED_COMMUNICATIONS
+): string[] {
+  const shuffled = [...ids].sort()
+  const random = seededRandom(seedFrom(curatorId, periodId))
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const swap = shuffled[i]
+    shuffled[i] = shuffled[j]
+    shuffled[j] = swap
+  }
+  return shuffled.slice(0, size)
+}
@@ -1,2 +1,13 @@
-export const TEXT_SUBMISSION_MAX_WORDS = 800;
-export const TEXT_SUBMISSION_WARN_WORDS = 700; // amber warning threshold
+// Hard cap on a text submission's length, enforced when it is submitted (the magazine
+// flows whatever is accepted onto as many pages as it needs). Configurable per deployment.
+export const TEXT_SUBMISSION_MAX_WORDS = Number(process.env.NEXT_PUBLIC_TEXT_SUBMISSION_MAX_WORDS) || 800;
+export const TEXT_SUBMISSION_WARN_WORDS = TEXT_SUBMISSION_MAX_WORDS - 100; // amber warning threshold
+
+// Streaming services a music submission's listen link may point to (host or parent domain)
+export const LISTEN_URL_HOSTS = [
+  'open.spotify.com', 'spotify.link',
+  'bandcamp.com',
+  'soundcloud.com',
+  'music.apple.com',
+  'youtube.com', 'music.youtube.com', 'youtu.be',
+];
@@ -0,0 +1,41 @@
+// src/lib/listenUrl.ts
+// Validation for the streaming link on music submissions. Shared by SubmissionForm and the
+// magazine generator, which prints the link as a QR code on MusicPage.
+
+import { LISTEN_URL_HOSTS } from './constants/submission'
+
+export type ListenUrlResult = { ok: true; url: string } | { ok: false; error: string }
+
+// Accepts a bare host ("open.spotify.com/…") or a full URL; always returns https.
+export function validateListenUrl(raw: string): ListenUrlResult {
+  const trimmed = raw.trim()
+  if (!trimmed) return { ok: false, error: 'Add a link to where the track can be heard' }
+
+  let url: URL
+  try {
+    url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+  } catch {
+    return { ok: false, error: 'That doesn\'t look like a link' }
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return { ok: false, error: 'Links must start with https://' }
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '')
+  const allowed = LISTEN_URL_HOSTS.some(h => host === h || host.endsWith(`.${h}`))
+  if (!allowed) {
+    return { ok: false, error: 'Use a Spotify, Bandcamp, SoundCloud, Apple Music or YouTube link' }
+  }
+  if (url.pathname === '/' || url.pathname === '') {
+    return { ok: false, error: 'Link to a specific track, album or artist page' }
+  }
+
+  // Share-link tracking parameters only make the printed QR code denser
+  for (const key of [...url.searchParams.keys()]) {
+    if (key === 'si' || key.startsWith('utm_')) url.searchParams.delete(key)
+  }
+  url.protocol = 'https:'
+  url.hash = ''
+  return { ok: true, url: url.toString() }
+}
+
@@ -0,0 +1,51 @@
+// src/lib/runningOrder.ts
+// A curator's running order: their selections in the order they arranged them on /curate,
+// each optionally pinned. Shared by the curate page, which edits it, and the magazine
+// generator, which keeps pinned pieces at their position and arranges the rest itself.
+// Sources are 'creator:<id>', 'collab:<id>', 'campaign:<id>' or 'communications'.
+
+export interface RunningOrderEntry {
+  source: string
+  pinned: boolean
+}
+
+export const COMMUNICATIONS_SOURCE = 'communications'
+
+export function isRunningOrder(value: unknown): value is RunningOrderEntry[] {
+  return Array.isArray(value) && value.every(e =>
+    !!e && typeof e === 'object' &&
+    typeof (e as RunningOrderEntry).source === 'string' &&
+    typeof (e as RunningOrderEntry).pinned === 'boolean'
+  )
+}
+
+// Drops entries that are no longer selected and appends new selections, unpinned, in the
+// order given. Existing entries keep their place.
+export function reconcileRunningOrder(order: RunningOrderEntry[], selected: string[]): RunningOrderEntry[] {
+  const selectedSet = new Set(selected)
+  const kept = order.filter(e => selectedSet.has(e.source))
+  const known = new Set(kept.map(e => e.source))
+  const added = selected.filter(s => !known.has(s)).map(source => ({ source, pinned: false }))
+  return [...kept, ...added]
+}
+
+// Moves an entry and pins it: moving a piece says where it should go.
+export function moveRunningOrderEntry(order: RunningOrderEntry[], from: number, to: number): RunningOrderEntry[] {
+  if (from === to || from < 0 || to < 0 || from >= order.length || to >= order.length) return order
+  const next = [...order]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, { ...moved, pinned: true })
+  return next
+}
+
+// Zero-based positions of pinned sources among those actually present in the edition,
+// counting unpinned entries, so a piece pinned last still closes the issue when an
+// earlier selection has nothing to print.
+export function pinnedPositions(order: RunningOrderEntry[], present: Iterable<string>): Map<string, number> {
+  const presentSet = new Set(present)
+  const positions = new Map<string, number>()
+  order
+    .filter(e => presentSet.has(e.source))
+    .forEach((e, index) => { if (e.pinned) positions.set(e.source, index) })
+  return positions
+}
@@ -0,0 +1,35 @@
+// src/lib/seededSample.ts
+// Reproducible "random" choices for print: the same inputs always give the same pick, so
+// a reprint or a re-saved selection matches the original.
+
+// FNV-1a over the parts, as an unsigned 32-bit seed
+export function seedFrom(...parts: string[]): number {
+  let hash = 0x811c9dc5
+  for (const ch of parts.join(':')) {
+    hash ^= ch.charCodeAt(0)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+// mulberry32: a small, fast PRNG returning floats in [0, 1)
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Up to `size` of the items, ranked by a hash of the seed and each item's key. Unlike a
+// shuffle, adding items later only changes the pick where a newcomer outranks it.
+export function rankedSample<T>(items: T[], keyOf: (item: T) => string, seed: string, size: number): T[] {
+  return items
+    .map(item => ({ item, rank: seedFrom(seed, keyOf(item)) }))
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, size)
+    .map(r => r.item)
+}
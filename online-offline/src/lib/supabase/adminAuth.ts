@@ -0,0 +1,74 @@
+// src/lib/supabase/adminAuth.ts
+// Shared by the /api/admin routes: a service role client for data access (bypasses RLS)
+// and an admin check against the requester's session cookies. requireUser is the same
+// check without the admin role, for routes any signed-in curator may call.
+
+import { createServerClient } from '@supabase/ssr'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+function createSessionClient(cookieStore: Awaited<ReturnType<typeof cookies>>) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() { return cookieStore.getAll() },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value, options }) =>
+            cookieStore.set(name, value, options)
+          )
+        },
+      },
+    }
+  )
+}
+
+// Resolves to the signed-in user's id, or to the 401 response the route should return.
+export async function requireUser(
+  logTag: string
+): Promise<{ userId: string } | { response: NextResponse }> {
+  const authClient = createSessionClient(await cookies())
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user) {
+    console.error(`[${logTag}] no authenticated user`)
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+  return { userId: user.id }
+}
+
+// Resolves to the admin's user id, or to the 401/403 response the route should return.
+export async function requireAdmin(
+  logTag: string
+): Promise<{ userId: string } | { response: NextResponse }> {
+  const authClient = createSessionClient(await cookies())
+
+  const { data: { user } } = await authClient.auth.getUser()
+  if (!user) {
+    console.error(`[${logTag}] no authenticated user`)
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: adminRow, error: adminErr } = await authClient
+    .from('profile_types')
+    .select('type')
+    .eq('profile_id', user.id)
+    .eq('type', 'admin')
+    .maybeSingle()
+
+  if (!adminRow) {
+    console.error(`[${logTag}] admin check failed for user:`, user.id, 'error:', adminErr)
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+
+  return { userId: user.id }
+}
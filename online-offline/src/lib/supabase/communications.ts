@@ -1,4 +1,9 @@
 import { getSupabaseClient } from './client'
+import {
+  MAX_SELECTED_COMMUNICATIONS,
+  sampleCommunicationIds,
+  type CommunicationSelectionMethod,
+} from '../communicationSelection'
 
 // Define TypeScript interfaces for our data structures
 interface Communication {
@@ -157,6 +162,7 @@ export const getReceivedCommunications = async (supabase: ReturnType<typeof getS
         subject,
         sender_id,
         is_selected,
+        selection_method,
         profiles:sender_id (
           first_name,
           last_name
@@ -170,7 +176,19 @@ export const getReceivedCommunications = async (supabase: ReturnType<typeof getS
       throw error;
     }
     
-    return { success: true, received: data };
+    // The method saved with selectCommunications, if any
+    const { data: settings, error: settingsError } = await supabase
+      .from('curator_communication_selections')
+      .select('selection_method')
+      .eq('curator_id', user.id)
+      .eq('period_id', periodId)
+      .maybeSingle();
+    
+    if (settingsError) {
+      throw settingsError;
+    }
+    
+    return { success: true, received: data, selectionMethod: (settings?.selection_method as string | null) ?? null };
   } catch (error) {
     console.error('Error fetching received communications:', error);
     return { success: false, error };
@@ -393,11 +411,13 @@ export const getContributors = async (supabase: ReturnType<typeof getSupabaseCli
   }
 };
 
-// For curators: select communications to include
+// For curators: select communications to include. Replaces any earlier choice for the
+// period; a random sample is reproducible (see sampleCommunicationIds). The method is kept
+// in the curator's communication settings, so a choice that selects nothing still holds.
 export const selectCommunications = async (
   supabase: ReturnType<typeof getSupabaseClient>,
   communicationIds: string[],
-  selectionMethod: 'all' | 'random' | 'select',
+  selectionMethod: CommunicationSelectionMethod,
   periodId: string
 ) => {
   try {    const { data: { user } } = await supabase.auth.getUser();
@@ -406,49 +426,82 @@ export const selectCommunications = async (
       return { success: false, error: 'User not authenticated' };
     }
     
-    // If using random selection
-    if (selectionMethod === 'random') {
-      // Get all communications sent to this curator for this period
-      const { data: allComms, error: queryError } = await supabase
+    // Get all communications sent to this curator for this period
+    const { data: allComms, error: queryError } = await supabase
+      .from('communications')
+      .select('id')
+      .eq('recipient_id', user.id)
+      .eq('status', 'submitted')
+      .eq('period_id', periodId);
+    
+    if (queryError) {
+      throw queryError;
+    }
+    
+    const allIds = (allComms ?? []).map((comm: { id: string }) => comm.id);
+    if (selectionMethod === 'all') {
+      communicationIds = allIds;
+    } else if (selectionMethod === 'random') {
+      communicationIds = sampleCommunicationIds(allIds, user.id, periodId);
+    } else {
+      communicationIds = communicationIds.filter(id => allIds.includes(id)).slice(0, MAX_SELECTED_COMMUNICATIONS);
+    }
+    
+    // Clear the previous choice, then mark the new one
+    const { error: clearError } = await supabase
+      .from('communications')
+      .update({ is_selected: false, selection_method: null })
+      .eq('recipient_id', user.id)
+      .eq('period_id', periodId);
+    
+    if (clearError) {
+      throw clearError;
+    }
+    
+    if (communicationIds.length > 0) {
+      const { error } = await supabase
         .from('communications')
-        .select('id')
+        .update({ is_selected: true, selection_method: selectionMethod })
+        .in('id', communicationIds)
         .eq('recipient_id', user.id)
         .eq('status', 'submitted')
         .eq('period_id', periodId);
       
-      if (queryError) {
-        throw queryError;
-      }
-      
-      if (!allComms) {
-        throw new Error('No communications found');
+      if (error) {
+        throw error;
       }
-      
-      // Randomly select up to 10
-      const shuffled = [...allComms].sort(() => 0.5 - Math.random());
-      const selected = shuffled.slice(0, 10);
-      communicationIds = selected.map(comm => comm.id);
     }
     
-    // Update all selected communications
-    const updatedRecords = {
-      is_selected: true,
-      selection_method: selectionMethod
-    };
-    
-    const { error } = await supabase
-      .from('communications')
-      .update(updatedRecords)
-      .in('id', communicationIds)
-      .eq('recipient_id', user.id)
-      .eq('status', 'submitted')
-      .eq('period_id', periodId);
+    // Record the method; the settings row is created here when /curate has not saved one
+    // yet, leaving communications out of the magazine until the curator includes them.
+    const { data: updated, error: methodError } = await supabase
+      .from('curator_communication_selections')
+      .update({ selection_method: selectionMethod })
+      .eq('curator_id', user.id)
+      .eq('period_id', periodId)
+      .select('curator_id');
+    
+    if (methodError) {
+      throw methodError;
+    }
     
-    if (error) {
-      throw error;
+    if (!updated || updated.length === 0) {
+      const { error: insertError } = await supabase
+        .from('curator_communication_selections')
+        .insert({
+          curator_id: user.id,
+          period_id: periodId,
+          include_communications: false,
+          selection_method: selectionMethod,
+          selected_at: new Date().toISOString()
+        });
+      
+      if (insertError) {
+        throw insertError;
+      }
     }
     
-    return { success: true };
+    return { success: true, selected: communicationIds };
   } catch (error) {
     console.error('Error selecting communications:', error);
     return { success: false, error };
@@ -1,4 +1,5 @@
 import { getSupabaseClient } from './client'
+import { TEXT_SUBMISSION_MAX_WORDS } from '../constants/submission'
 
 interface ContentEntry {
   title: string;
@@ -159,7 +160,8 @@ export async function saveContent(
   entries: ContentEntry[],
   existingDraftId?: string,
   pageTitle?: string,
-  format: 'image' | 'text' = 'image'
+  format: 'image' | 'text' = 'image',
+  listenUrl: string | null = null
 ) {
   try {
     const { data: { user }, error: userError } = await supabase.auth.getUser();
@@ -169,6 +171,14 @@ export async function saveContent(
     const { period, error: periodError } = await getCurrentPeriod(supabase);
     if (!period || periodError) throw new Error('No active period found');
 
+    // The word cap binds on submission; drafts may run over while they are edited.
+    if (status !== 'draft' && format === 'text') {
+      const words = entries.reduce((n, e) => n + (e.body ?? '').trim().split(/\s+/).filter(Boolean).length, 0);
+      if (words > TEXT_SUBMISSION_MAX_WORDS) {
+        throw new Error(`Text submissions are limited to ${TEXT_SUBMISSION_MAX_WORDS} words (this one has ${words})`);
+      }
+    }
+
     let contentId: string;
 
     if (existingDraftId) {
@@ -180,6 +190,7 @@ export async function saveContent(
           status,
           page_title: pageTitle || '',
           format,
+          listen_url: listenUrl,
           updated_at: new Date().toISOString(),
         })
         .eq('id', existingDraftId);
@@ -234,6 +245,7 @@ export async function saveContent(
             status,
             page_title: pageTitle || '',
             format,
+            listen_url: listenUrl,
             updated_at: new Date().toISOString(),
           })
           .eq('id', existingForPeriod.id)
@@ -256,6 +268,7 @@ export async function saveContent(
               period_id: period.id,
               page_title: pageTitle || '',
               format,
+              listen_url: listenUrl,
               layout_preferences: {},
               content_dimensions: {},
               style_metadata: {}
@@ -300,6 +313,7 @@ export async function saveContent(
             period_id: period.id,
             page_title: pageTitle || '',
             format,
+            listen_url: listenUrl,
             layout_preferences: {},
             content_dimensions: {},
             style_metadata: {}
@@ -1,5 +1,6 @@
 // src/lib/supabase/curation.ts
 import { getSupabaseClient } from './client'
+import type { RunningOrderEntry } from '../runningOrder'
 
 // Type definitions
 interface Period {
@@ -117,6 +118,10 @@ interface SaveSelectionsInput {
   selected_collaborations: string[];
   selected_communications: string[];
   selected_ads: string[];
+  // Collab entries use the page's selection ids; they are stored against the real collab id
+  running_order?: RunningOrderEntry[];
+  // Creator id → template picked from the submission's eligible layouts
+  creator_layouts?: Record<string, string>;
 }
 
 interface CurationResult {
@@ -745,7 +750,9 @@ export async function saveCuratorSelections(supabase: ReturnType<typeof getSupab
   selected_contributors,
   selected_collaborations,
   selected_communications,
-  selected_ads
+  selected_ads,
+  running_order,
+  creator_layouts = {}
 }: SaveSelectionsInput): Promise<{ success: boolean; error?: string }> {
   try {
     console.log("Starting to save selections with:", {
@@ -1071,6 +1078,7 @@ export async function saveCuratorSelections(supabase: ReturnType<typeof getSupab
           curator_id,
           creator_id: creatorId,
           period_id,
+          layout: creator_layouts[creatorId] ?? null,
           selected_at: new Date().toISOString()
         }));
         
@@ -1142,6 +1150,21 @@ export async function saveCuratorSelections(supabase: ReturnType<typeof getSupab
     
     // 3. Save collaboration selections - MODIFIED APPROACH
     try {
+      // Entries a collab spread already printed (see migration 006) carry over while the
+      // collab stays selected the same way, so a reprint still matches
+      const { data: printedCollabs } = await supabase
+        .from('curator_collab_selections')
+        .select('collab_id, participation_mode, location, entry_ids')
+        .eq('curator_id', curator_id)
+        .eq('period_id', period_id)
+        .not('entry_ids', 'is', null);
+      const printedEntries = new Map<string, string[]>(
+        (printedCollabs ?? []).map(row => [
+          `${row.collab_id}:${row.participation_mode}:${row.location ?? ''}`,
+          row.entry_ids as string[],
+        ])
+      );
+      
       // First completely delete all existing collab selections
       const { error: deleteCollabError } = await supabase
         .from('curator_collab_selections')
@@ -1185,7 +1208,10 @@ export async function saveCuratorSelections(supabase: ReturnType<typeof getSupab
               participation_mode: selection.participation_mode,
               location: selection.location,
               source_id: selection.source_id,
-              selected_at: new Date().toISOString()
+              selected_at: new Date().toISOString(),
+              entry_ids: printedEntries.get(
+                `${selection.collab_id}:${selection.participation_mode}:${selection.location ?? ''}`
+              ) ?? null
             };
             
             const { error: insertError } = await supabase
@@ -1244,42 +1270,75 @@ export async function saveCuratorSelections(supabase: ReturnType<typeof getSupab
     }
     
     // 4. Save communications selections
+    // Updated in place, so the message choice saved on /curate/communications
+    // (selection_method) survives; inserted when there is no row yet
     try {
-      const { error: deleteCommsError } = await supabase
+      const commsSettings = {
+        include_communications: selected_communications.length > 0,
+        selected_at: new Date().toISOString()
+      };
+      const { data: updatedComms, error: updateCommsError } = await supabase
         .from('curator_communication_selections')
-        .delete()
+        .update(commsSettings)
         .eq('curator_id', curator_id)
-        .eq('period_id', period_id);
+        .eq('period_id', period_id)
+        .select('curator_id');
         
-      if (deleteCommsError) {
-        const errorMsg = deleteCommsError.message || JSON.stringify(deleteCommsError);
-        console.error(`Error deleting comm settings:`, errorMsg);
+      if (updateCommsError) {
+        const errorMsg = updateCommsError.message || JSON.stringify(updateCommsError);
+        console.error(`Error updating comm settings:`, errorMsg);
         return { success: false, error: errorMsg };
       }
       
-      console.log(`Successfully deleted existing communication selections`);
-      
-      // Insert new settings if communications are selected
-      const { error: insertCommsError } = await supabase
-        .from('curator_communication_selections')
-        .insert({
-          curator_id,
-          period_id,
-          include_communications: selected_communications.length > 0,
-          selected_at: new Date().toISOString()
-        });
-        
-      if (insertCommsError) {
-        const errorMsg = insertCommsError.message || JSON.stringify(insertCommsError);
-        console.error(`Error inserting comm settings:`, errorMsg);
-        return { success: false, error: errorMsg };
+      if (!updatedComms || updatedComms.length === 0) {
+        const { error: insertCommsError } = await supabase
+          .from('curator_communication_selections')
+          .insert({ curator_id, period_id, ...commsSettings });
+          
+        if (insertCommsError) {
+          const errorMsg = insertCommsError.message || JSON.stringify(insertCommsError);
+          console.error(`Error inserting comm settings:`, errorMsg);
+          return { success: false, error: errorMsg };
+        }
       }
       
-      console.log(`Successfully inserted communication selections`);
+      console.log(`Successfully saved communication selections`);
     } catch (commsError) {
       console.error(`Exception during communication selections:`, commsError);
       return { success: false, error: String(commsError) };
     }
+
+    // 5. Save the running order
+    if (running_order) {
+      try {
+        const collabIds = new Map(collaborationSelections.map(s => [`collab:${s.source_id}`, `collab:${s.collab_id}`]));
+        const entries = running_order
+          .map(entry => entry.source.startsWith('collab:')
+            ? (collabIds.has(entry.source) ? { ...entry, source: collabIds.get(entry.source)! } : null)
+            : entry)
+          .filter((entry): entry is RunningOrderEntry => entry !== null);
+
+        const { error: orderError } = await supabase
+          .from('curator_running_orders')
+          .upsert({
+            curator_id,
+            period_id,
+            entries,
+            updated_at: new Date().toISOString()
+          }, { onConflict: 'curator_id,period_id' });
+
+        if (orderError) {
+          const errorMsg = orderError.message || JSON.stringify(orderError);
+          console.error(`Error saving running order:`, errorMsg);
+          return { success: false, error: errorMsg };
+        }
+
+        console.log(`Successfully saved running order (${entries.filter(e => e.pinned).length} pinned)`);
+      } catch (orderError) {
+        console.error(`Exception during running order save:`, orderError);
+        return { success: false, error: String(orderError) };
+      }
+    }
     
     console.log(`Successfully completed all selection operations!`);
     return { success: true };
@@ -0,0 +1,819 @@
+// src/magazine/core/assembly.ts — Edition assembly: from curator selections to a page plan.
+// Fetches a curator's selections for a period, maps each to a template, orders content
+// for a varied, spread-aligned flow and numbers every page. The resulting plan is the
+// single source of truth for an edition: the PDF renderer prints it and the admin
+// preview displays it, so what an admin previews is exactly what prints.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { communicationSelectionMethod, printedCommunicationIds } from '../../lib/communicationSelection';
+import { validateListenUrl } from '../../lib/listenUrl';
+import {
+  isRunningOrder,
+  pinnedPositions,
+  type RunningOrderEntry,
+} from '../../lib/runningOrder';
+
+import { pickCollabEntries } from './collabEntries';
+import { colophonCredits } from './colophon';
+import { paginateCommunications } from './communicationsLayout';
+import {
+  FIRST_CONTENT_PAGE,
+  itemPageCount,
+  opensSpread,
+  orderWithPins,
+  selectionSource,
+} from './contentOrder';
+import { SADDLE_STITCH_MULTIPLE, paddingForMultiple } from './imposition';
+import { SPREAD_TEMPLATES } from './pageHtml';
+import {
+  continuationPages,
+  eligibleTemplates,
+  selectTemplate,
+  textBody,
+  type TemplateOption,
+} from './selectionLogic';
+import { BASE_TEMPLATE_SET, loadTemplateBundle, type TemplateBundle } from './templateBundle';
+import {
+  CONTINUATION_TEMPLATE,
+  FLOWING_TEMPLATES,
+  estimateFit,
+  flowText,
+  splitParagraphs,
+  type RegionFitter,
+  type TextRegionFit,
+} from './textFlow';
+import type {
+  SelectionItem,
+  SelectionItemCreator,
+  SelectionItemCollab,
+  SelectionItemCommunications,
+  SelectionItemCampaign,
+  CoverData,
+  FrontMatterData,
+  ColophonData,
+  TocEntry,
+  TemplateAssignment,
+  ContentType,
+  ContentPageData,
+  ParticipationMode,
+  CommunicationMessage,
+  CollabEntryData,
+  ContentEntryData,
+} from './types';
+
+// Content type ordering for page sequencing
+const CONTENT_TYPE_ORDER: Record<string, number> = {
+  photography: 0, art: 1, essay: 2, poetry: 3, music: 4,
+};
+
+// ─── Supabase Data Fetchers ───────────────────────────────────────────────────
+
+interface PeriodRow {
+  id: string;
+  name: string;
+  season: string;
+  year: number;
+  volume: string | null;
+  issue: number | null;
+  template_set_name: string | null;
+}
+
+const PERIOD_COLUMNS = 'id, name, season, year, volume, issue, template_set_name';
+
+async function fetchPeriod(db: SupabaseClient, periodId: string): Promise<PeriodRow> {
+  const { data, error } = await db
+    .from('periods')
+    .select(PERIOD_COLUMNS)
+    .eq('id', periodId)
+    .single();
+  if (error || !data) throw new Error(`Period not found: ${periodId}`);
+  return data as PeriodRow;
+}
+
+// The period curators are currently working in, for the admin preview and layout options.
+export async function fetchActivePeriodId(db: SupabaseClient): Promise<string> {
+  const { data, error } = await db
+    .from('periods')
+    .select('id')
+    .eq('is_active', true)
+    .maybeSingle();
+  if (error || !data) {
+    console.error('[assembly] active period lookup failed:', error, '| data:', data);
+    throw new Error('No active period found');
+  }
+  return (data as { id: string }).id;
+}
+
+interface RawProfile {
+  first_name?: string | null;
+  last_name?: string | null;
+  city?: string | null;
+  content_type?: string | null;
+}
+
+function profileName(p: RawProfile): string {
+  return `${p.first_name ?? ''} ${p.last_name ?? ''}`.trim() || 'Unknown';
+}
+
+// Stored links were validated on submission; anything that no longer passes is dropped
+// rather than printed as a QR code.
+function listenUrlFor(raw: unknown): string | undefined {
+  if (typeof raw !== 'string' || !raw) return undefined;
+  const result = validateListenUrl(raw);
+  return result.ok ? result.url : undefined;
+}
+
+async function fetchRunningOrder(db: SupabaseClient, curatorId: string, periodId: string): Promise<RunningOrderEntry[]> {
+  const { data } = await db
+    .from('curator_running_orders')
+    .select('entries')
+    .eq('curator_id', curatorId)
+    .eq('period_id', periodId)
+    .maybeSingle();
+  const entries = (data as { entries?: unknown } | null)?.entries;
+  return isRunningOrder(entries) ? entries : [];
+}
+
+async function fetchCuratorProfile(db: SupabaseClient, curatorId: string) {
+  const { data, error } = await db
+    .from('profiles')
+    .select('first_name, last_name, city')
+    .eq('id', curatorId)
+    .single();
+  if (error || !data) throw new Error(`Curator profile not found: ${curatorId}`);
+  const p = data as RawProfile;
+  return { name: profileName(p), city: p.city ?? '' };
+}
+
+// Rows per request when reading a whole table; PostgREST caps a response at 1000 rows.
+const SELECTION_PAGE_SIZE = 1000;
+
+// The curator of every creator selection in the period, one entry per selection. Read a
+// page at a time, in a stable order, so a large period is never silently cut short.
+export async function fetchSelectionCuratorIds(db: SupabaseClient, periodId: string): Promise<string[]> {
+  const curatorIds: string[] = [];
+  for (let from = 0; ; from += SELECTION_PAGE_SIZE) {
+    const { data, error } = await db
+      .from('curator_creator_selections')
+      .select('curator_id')
+      .eq('period_id', periodId)
+      .order('curator_id')
+      .order('creator_id')
+      .range(from, from + SELECTION_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load curator selections: ${error.message}`);
+    const rows = (data ?? []) as Array<{ curator_id: string }>;
+    curatorIds.push(...rows.map(s => s.curator_id));
+    if (rows.length < SELECTION_PAGE_SIZE) return curatorIds;
+  }
+}
+
+// The edition's number among the period's: one edition per curator with a creator
+// selection in the period (the curators a batch run generates, see batch.ts), numbered
+// in curator id order so the number does not move as selections change.
+async function fetchEditionNumber(
+  db: SupabaseClient,
+  curatorId: string,
+  periodId: string
+): Promise<{ number: number; total: number }> {
+  const curatorIds = new Set(await fetchSelectionCuratorIds(db, periodId));
+  // A curator with no creator selections still gets an edition when generated directly
+  curatorIds.add(curatorId);
+  const ordered = [...curatorIds].sort();
+  return { number: ordered.indexOf(curatorId) + 1, total: ordered.length };
+}
+
+async function fetchCreatorItems(
+  db: SupabaseClient,
+  curatorId: string,
+  periodId: string,
+  season: string
+): Promise<SelectionItemCreator[]> {
+  const { data: selections } = await db
+    .from('curator_creator_selections')
+    .select('creator_id, layout')
+    .eq('curator_id', curatorId)
+    .eq('period_id', periodId);
+
+  const layouts = new Map(
+    ((selections ?? []) as Array<{ creator_id: string; layout: string | null }>)
+      .map(s => [s.creator_id, s.layout ?? undefined])
+  );
+  if (layouts.size === 0) return [];
+
+  const items = await fetchCreatorContent(db, [...layouts.keys()], periodId, season);
+  for (const item of items) {
+    const layout = layouts.get(item.creatorId);
+    if (!layout) continue;
+    if (eligibleTemplates(item).some(o => o.templateName === layout)) {
+      item.layout = layout;
+    } else {
+      console.warn(`[assembly] ${item.contributor.name}: layout ${layout} no longer fits the submission, using the default`);
+    }
+  }
+
+  // Sort: photography → art → essay → poetry → music
+  return items.sort(
+    (a, b) =>
+      (CONTENT_TYPE_ORDER[a.contentType] ?? 99) - (CONTENT_TYPE_ORDER[b.contentType] ?? 99)
+  );
+}
+
+const CREATOR_CONTENT_COLUMNS = `
+  id, creator_id, type, page_title, listen_url,
+  profiles:creator_id ( first_name, last_name, city, content_type ),
+  content_entries ( id, title, caption, body, media_url, focal_x, focal_y, aspect_ratio, order_index )
+`;
+
+// Creators' submissions for the period as selection items, in no particular order.
+async function fetchCreatorContent(
+  db: SupabaseClient,
+  creatorIds: string[],
+  periodId: string,
+  season: string
+): Promise<SelectionItemCreator[]> {
+  const { data: contentRows } = await db
+    .from('content')
+    .select(CREATOR_CONTENT_COLUMNS)
+    .in('creator_id', creatorIds)
+    .eq('period_id', periodId)
+    .neq('status', 'draft');
+
+  return ((contentRows ?? []) as Array<Record<string, unknown>>)
+    .map(row => creatorContentItem(row, season))
+    .filter((item): item is SelectionItemCreator => item !== null);
+}
+
+// One content row as a selection item; null when the creator has no profile.
+function creatorContentItem(row: Record<string, unknown>, season: string): SelectionItemCreator | null {
+  const profileRaw = Array.isArray(row.profiles)
+    ? (row.profiles[0] as RawProfile | undefined)
+    : (row.profiles as RawProfile | undefined);
+  if (!profileRaw) return null;
+
+  const contentType = (profileRaw.content_type ?? 'photography') as ContentType;
+  const rawEntries = Array.isArray(row.content_entries) ? row.content_entries : [];
+  const entries: ContentEntryData[] = (rawEntries as Array<Record<string, unknown>>)
+    .sort((a, b) => ((a.order_index as number) ?? 0) - ((b.order_index as number) ?? 0))
+    .map(e => ({
+      title:        (e.title as string | undefined) ?? undefined,
+      caption:      (e.caption as string | undefined) ?? undefined,
+      body:         (e.body as string | null | undefined) ?? undefined,
+      media_url:    (e.media_url as string | undefined) ?? undefined,
+      // Left unset when missing (templates supply their own default crop) so
+      // preflight can tell an unset focal point from a deliberate 50/50.
+      focal_x:      (e.focal_x as number | null | undefined) ?? undefined,
+      focal_y:      (e.focal_y as number | null | undefined) ?? undefined,
+      aspect_ratio: (e.aspect_ratio as number | null | undefined) ?? null,
+    }));
+
+  return {
+    kind: 'creator',
+    creatorId: row.creator_id as string,
+    contentType,
+    submissionType: (row.type as 'regular' | 'fullSpread') ?? 'regular',
+    entries,
+    pageTitle: (row.page_title as string | undefined) ?? '',
+    contributor: { id: row.creator_id as string, name: profileName(profileRaw), city: profileRaw.city ?? '' },
+    season,
+    listenUrl: listenUrlFor(row.listen_url),
+  };
+}
+
+// The layouts each creator's current submission can take (default first), for the
+// curator's layout picker. Creators without a submission this period are left out.
+export async function fetchLayoutOptions(
+  db: SupabaseClient,
+  creatorIds: string[],
+  periodId: string
+): Promise<Record<string, TemplateOption[]>> {
+  if (creatorIds.length === 0) return {};
+  const { season } = await fetchPeriod(db, periodId);
+  const items = await fetchCreatorContent(db, creatorIds, periodId, season);
+  return Object.fromEntries(items.map(item => [item.creatorId, eligibleTemplates(item)]));
+}
+
+// One submission (a content row, drafts included) as a selection item, for the template
+// playground; null when there is no such submission or its creator has no profile. Its
+// text is flowed across the pages of its default template, measured with measure.
+export async function fetchSubmissionItem(
+  db: SupabaseClient,
+  contentId: string,
+  bundle: TemplateBundle,
+  measure: TextMeasurer | undefined
+): Promise<SelectionItemCreator | null> {
+  const { data, error } = await db
+    .from('content')
+    .select(`period_id, ${CREATOR_CONTENT_COLUMNS}`)
+    .eq('id', contentId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load submission ${contentId}: ${error.message}`);
+  if (!data) return null;
+
+  const row = data as Record<string, unknown>;
+  const { season } = await fetchPeriod(db, row.period_id as string);
+  const item = creatorContentItem(row, season);
+  if (item) await flowCreatorText([item], bundle, measure);
+  return item;
+}
+
+function profileOf(raw: unknown): RawProfile | undefined {
+  return Array.isArray(raw) ? (raw[0] as RawProfile | undefined) : (raw as RawProfile | undefined);
+}
+
+// A collab spread's entries picked for the first time, to record once the edition prints
+export interface CollabPick {
+  collabId: string;
+  entryIds: string[];
+}
+
+async function fetchCollabItems(
+  db: SupabaseClient,
+  curatorId: string,
+  periodId: string,
+  season: string
+): Promise<{ items: SelectionItemCollab[]; picks: CollabPick[] }> {
+  const { data: selections } = await db
+    .from('curator_collab_selections')
+    .select('collab_id, participation_mode, location, entry_ids')
+    .eq('curator_id', curatorId)
+    .eq('period_id', periodId);
+
+  if (!selections || selections.length === 0) return { items: [], picks: [] };
+
+  const items: SelectionItemCollab[] = [];
+  const picks: CollabPick[] = [];
+
+  for (const sel of selections as Array<{
+    collab_id: string;
+    participation_mode: string;
+    location: string | null;
+    entry_ids: string[] | null;
+  }>) {
+    const { data: collab } = await db
+      .from('collabs')
+      .select('id, title, participation_mode, location, template_id, description')
+      .eq('id', sel.collab_id)
+      .maybeSingle();
+    if (!collab) continue;
+
+    // Fetch display_text from collab_template if available
+    let displayText = (collab as Record<string, unknown>).description as string ?? '';
+    const templateId = (collab as Record<string, unknown>).template_id as string | null;
+    if (templateId) {
+      const { data: tmpl } = await db
+        .from('collab_templates')
+        .select('display_text')
+        .eq('id', templateId)
+        .maybeSingle();
+      if (tmpl) displayText = (tmpl as Record<string, unknown>).display_text as string ?? displayText;
+    }
+
+    // Submitted entries and active participants (for local cities and private members)
+    const [{ data: submissions }, { data: participants }] = await Promise.all([
+      db
+        .from('collab_submissions')
+        .select(`
+          id, title, caption, media_url, contributor_id, created_at,
+          profiles:contributor_id ( first_name, last_name, city )
+        `)
+        .eq('collab_id', sel.collab_id)
+        .eq('status', 'submitted'),
+      db
+        .from('collab_participants')
+        .select('profile_id, city, profiles:profile_id ( first_name, last_name, city )')
+        .eq('collab_id', sel.collab_id)
+        .eq('status', 'active'),
+    ]);
+
+    const participantRows = (participants ?? []) as Array<Record<string, unknown>>;
+    const participantCity = new Map(participantRows.map(p => [p.profile_id as string, (p.city as string | null) ?? '']));
+    const submissionRows = (submissions ?? []) as Array<Record<string, unknown>>;
+    const byId = new Map(submissionRows.map(sub => [sub.id as string, sub]));
+
+    const mode = (sel.participation_mode ?? 'community') as ParticipationMode;
+    const collabTitle = ((collab as Record<string, unknown>).title as string | undefined) ?? '';
+    let entryIds: string[];
+    if (sel.entry_ids?.length) {
+      // Printed before: print the same entries
+      entryIds = sel.entry_ids.filter(id => byId.has(id));
+      const missing = sel.entry_ids.length - entryIds.length;
+      if (missing > 0) console.warn(`[assembly] collab "${collabTitle}": ${missing} recorded entries no longer submitted`);
+    } else {
+      entryIds = pickCollabEntries(mode, submissionRows.map(sub => {
+        const contributorId = sub.contributor_id as string;
+        return {
+          id: sub.id as string,
+          contributorId,
+          city: participantCity.get(contributorId) || profileOf(sub.profiles)?.city || '',
+          createdAt: (sub.created_at as string | undefined) ?? '',
+        };
+      }), { curatorId, periodId, collabId: sel.collab_id, location: sel.location ?? undefined });
+
+      if (entryIds.length > 0) picks.push({ collabId: sel.collab_id, entryIds });
+    }
+
+    const entries: CollabEntryData[] = entryIds.map(id => byId.get(id)!).map(sub => {
+      const pRaw = profileOf(sub.profiles);
+      return {
+        title:     (sub.title as string | undefined) ?? undefined,
+        caption:   (sub.caption as string | undefined) ?? undefined,
+        media_url: (sub.media_url as string | undefined) ?? undefined,
+        contributor: pRaw
+          ? { id: sub.contributor_id as string, name: profileName(pRaw), city: pRaw.city ?? '' }
+          : { name: 'Contributor', city: '' },
+      };
+    });
+
+    const members = mode === 'private'
+      ? participantRows.flatMap(p => {
+          const pRaw = profileOf(p.profiles);
+          return pRaw
+            ? [{ id: p.profile_id as string, name: profileName(pRaw), city: (p.city as string | null) || pRaw.city || '' }]
+            : [];
+        })
+      : undefined;
+
+    items.push({
+      kind: 'collab',
+      collabId: sel.collab_id,
+      collabTitle,
+      participationMode: mode,
+      location: sel.location ?? undefined,
+      city: sel.location ?? '',
+      displayText,
+      entries,
+      members,
+      season,
+    });
+  }
+
+  return { items, picks };
+}
+
+// Saves each first pick on the curator's selection, so reprints show the same entries.
+// The PDF generator calls this once an edition has printed; previews and plans only read.
+export async function recordCollabEntries(
+  db: SupabaseClient,
+  curatorId: string,
+  periodId: string,
+  picks: CollabPick[]
+): Promise<void> {
+  for (const pick of picks) {
+    const { error } = await db
+      .from('curator_collab_selections')
+      .update({ entry_ids: pick.entryIds })
+      .eq('curator_id', curatorId)
+      .eq('period_id', periodId)
+      .eq('collab_id', pick.collabId)
+      .is('entry_ids', null);
+    if (error) console.warn(`[assembly] collab ${pick.collabId}: could not record entries:`, error.message);
+  }
+}
+
+async function fetchCommunicationsItem(
+  db: SupabaseClient,
+  curatorId: string,
+  periodId: string,
+  season: string
+): Promise<SelectionItemCommunications | null> {
+  const { data: commSel } = await db
+    .from('curator_communication_selections')
+    .select('include_communications, selection_method')
+    .eq('curator_id', curatorId)
+    .eq('period_id', periodId)
+    .maybeSingle();
+
+  const settings = commSel as { include_communications?: boolean; selection_method?: string | null } | null;
+  if (!settings?.include_communications) return null;
+
+  const { data: comms } = await db
+    .from('communications')
+    .select(`
+      id, subject, content, status, created_at, is_selected, selection_method, sender_id,
+      sender:sender_id ( first_name, last_name, city ),
+      recipient:recipient_id ( first_name, last_name )
+    `)
+    .eq('recipient_id', curatorId)
+    .eq('period_id', periodId)
+    .eq('status', 'submitted')
+    .order('created_at', { ascending: false });
+
+  // Exactly what the curator chose on /curate/communications (see lib/communicationSelection)
+  const rows = (comms ?? []) as Array<Record<string, unknown> & { id: string }>;
+  const printed = printedCommunicationIds(rows, communicationSelectionMethod(settings.selection_method, rows));
+  const messages: CommunicationMessage[] = rows.filter(c => printed.has(c.id)).map(c => {
+    const senderRaw = Array.isArray(c.sender)
+      ? (c.sender[0] as RawProfile | undefined)
+      : (c.sender as RawProfile | undefined);
+    const recipientRaw = Array.isArray(c.recipient)
+      ? (c.recipient[0] as RawProfile | undefined)
+      : (c.recipient as RawProfile | undefined);
+
+    const createdAt = c.created_at as string | undefined;
+    const date = createdAt
+      ? new Date(createdAt).toLocaleDateString('en-US', { day: '2-digit', month: 'short', year: 'numeric' })
+      : '';
+
+    return {
+      from: senderRaw
+        ? { id: c.sender_id as string, name: profileName(senderRaw), city: senderRaw.city ?? '' }
+        : { name: 'Contributor', city: '' },
+      to: recipientRaw
+        ? { name: profileName(recipientRaw) }
+        : { name: 'Curator' },
+      date,
+      subject: (c.subject as string | undefined) ?? undefined,
+      body:    (c.content as string | undefined) ?? '',
+    };
+  });
+
+  if (messages.length === 0) return null;
+  const pages = paginateCommunications(messages);
+  if (pages.length > 1) console.log(`[assembly] Communications: ${messages.length} messages over ${pages.length} pages`);
+  return { kind: 'communications', messages, season, pages };
+}
+
+async function fetchCampaignItems(
+  db: SupabaseClient,
+  curatorId: string,
+  periodId: string
+): Promise<SelectionItemCampaign[]> {
+  const { data: selections } = await db
+    .from('curator_campaign_selections')
+    .select('campaign_id')
+    .eq('curator_id', curatorId)
+    .eq('period_id', periodId);
+
+  const campaignIds = (selections ?? []).map((s: { campaign_id: string }) => s.campaign_id);
+  if (campaignIds.length === 0) return [];
+
+  const { data: campaigns } = await db
+    .from('campaigns')
+    .select('id, name, bio, discount, avatar_url')
+    .in('id', campaignIds);
+
+  return ((campaigns ?? []) as Array<Record<string, unknown>>).map(c => ({
+    kind: 'campaign' as const,
+    campaignId:   c.id as string,
+    campaignName: (c.name as string | undefined) ?? '',
+    tagline:      (c.bio as string | undefined) ?? '',
+    discount:     typeof c.discount === 'number' ? c.discount : 2,
+    avatar_url:   (c.avatar_url as string | undefined) ?? undefined,
+  }));
+}
+
+// ─── Text Flow ────────────────────────────────────────────────────────────────
+
+// Measures how much of a flow region's text fits when the page is laid out with data.
+// The generator and admin preview lay pages out in Chromium (see withTextMeasurer in
+// ./generator); without a measurer, word estimates decide.
+export type TextMeasurer = (
+  templateName: string,
+  data: ContentPageData,
+  region: number,
+  bundle: TemplateBundle
+) => Promise<TextRegionFit>;
+
+// Flows each essay and text poem across its template's pages and any continuation pages
+// it needs (item.textFlow). Runs before ordering, which has to know every item's length.
+async function flowCreatorText(
+  items: SelectionItemCreator[],
+  bundle: TemplateBundle,
+  measure: TextMeasurer | undefined
+): Promise<void> {
+  for (const item of items) {
+    const { templateName, pageCount, data } = selectTemplate(item, 0);
+    if (!FLOWING_TEMPLATES.has(templateName)) continue;
+
+    const fit: RegionFitter = measure
+      ? (name, region, textPages) => measure(name, name === CONTINUATION_TEMPLATE
+          ? { ...(data as ContentPageData), entries: [], text_pages: textPages, continued_from: 0 }
+          : { ...(data as ContentPageData), text_pages: textPages }, region, bundle)
+      : estimateFit;
+    item.textFlow = await flowText(splitParagraphs(textBody(item)), templateName, pageCount, fit);
+
+    const continued = item.textFlow.length - pageCount;
+    if (continued > 0) console.log(`[assembly] ${item.contributor.name}: text continues on ${continued} more page(s)`);
+  }
+}
+
+// ─── Edition Plan ─────────────────────────────────────────────────────────────
+
+// Why a BlankPage that carries no design intent is in the edition
+export type FillerReason = 'alignment' | 'padding';
+
+// One template slot: a single page, or a two-page spread that prints across the fold.
+export interface PlannedPage {
+  templateName: string;
+  data: unknown;
+  pageCount: number;
+  // Printed page number of the slot's first (or only) page
+  firstPage: number;
+  isSpread: boolean;
+  // What the slot shows: 'creator:<id>', 'collab:<id>', 'campaign:<id>', 'communications',
+  // a page an item runs onto ('creator:<id>:continued:<n>', 'communications:continued:<n>'),
+  // a structural page
+  // ('cover', 'inside-cover', 'front-matter', 'colophon') or 'filler'
+  source: string;
+  filler?: FillerReason;
+}
+
+export interface EditionPlan {
+  curatorId: string;
+  periodId: string;
+  periodName: string;
+  season: string;
+  templateSet: string;
+  curator: { name: string; city: string };
+  pages: PlannedPage[];
+  pageCount: number;
+  // Blank filler pages added before the colophon to reach pageMultiple
+  paddingPages: number;
+}
+
+export interface AssembleOptions {
+  // Page count the issue is padded to a multiple of (default SADDLE_STITCH_MULTIPLE;
+  // 1 disables padding).
+  pageMultiple?: number;
+  // How long text is measured for flowing (default: word estimates)
+  measureText?: TextMeasurer;
+}
+
+export interface AssembledEdition {
+  plan: EditionPlan;
+  bundle: TemplateBundle;
+  // Collab entries picked for the first time (see recordCollabEntries)
+  collabPicks: CollabPick[];
+}
+
+function normalizeContentType(raw: string): string {
+  const map: Record<string, string> = {
+    photography: 'Photography',
+    art: 'Art',
+    essay: 'Essay',
+    writing: 'Essay',
+    poetry: 'Poetry',
+    music: 'Music',
+  };
+  return map[raw?.toLowerCase()] ?? raw;
+}
+
+// Fetches and lays out a curator's edition for a period, and loads the template bundle
+// of the period's set to render it with.
+export async function assembleEdition(
+  db: SupabaseClient,
+  curatorId: string,
+  periodId: string,
+  options: AssembleOptions = {}
+): Promise<AssembledEdition> {
+  console.log('[assembly] Fetching period and curator...');
+  const [period, curator, edition] = await Promise.all([
+    fetchPeriod(db, periodId),
+    fetchCuratorProfile(db, curatorId),
+    fetchEditionNumber(db, curatorId, periodId),
+  ]);
+  const season = period.season;
+
+  // Load the period's template set before fetching content: an unknown set or a missing
+  // or stale build fails before any real work.
+  const bundle = loadTemplateBundle(period.template_set_name ?? BASE_TEMPLATE_SET);
+  console.log(`[assembly] Template set: ${bundle.manifest.templateSet}`);
+
+  console.log('[assembly] Fetching selections...');
+  const [creatorItems, { items: collabItems, picks: collabPicks }, commsItem, campaignItems, runningOrder] = await Promise.all([
+    fetchCreatorItems(db, curatorId, periodId, season),
+    fetchCollabItems(db, curatorId, periodId, season),
+    fetchCommunicationsItem(db, curatorId, periodId, season),
+    fetchCampaignItems(db, curatorId, periodId),
+    fetchRunningOrder(db, curatorId, periodId),
+  ]);
+
+  await flowCreatorText(creatorItems, bundle, options.measureText);
+
+  // ── Assemble selection list, then order for varied, spread-aligned flow ─────
+  // around whatever the curator pinned in their running order.
+  const selectionItems: SelectionItem[] = [
+    ...creatorItems,
+    ...collabItems,
+    ...(commsItem ? [commsItem] : []),
+    ...campaignItems,
+  ];
+  const orderedItems = orderWithPins(
+    selectionItems,
+    pinnedPositions(runningOrder, selectionItems.map(selectionSource))
+  );
+  if (runningOrder.some(e => e.pinned)) {
+    console.log(`[assembly] Running order: ${runningOrder.filter(e => e.pinned).length} pinned piece(s)`);
+  }
+
+  // ── Assign page numbers ────────────────────────────────────────────────────
+  // Page 1 = Cover, Page 2 = Blank, Page 3 = FrontMatter, then content, last =
+  // Colophon. Content starts on page 4 (even). Every two-page spread must start
+  // on an even page; orderContentForFlow guarantees this by construction. The
+  // odd-page check below is a last-resort safety net (rule 4): if a spread would
+  // still land on an odd page with no single left to bump it, insert a blank
+  // filler page. Without pins it should never trigger (it warns if it does); a
+  // spread the curator pinned onto an odd page is the expected exception.
+  // contentAssignments holds each piece's first slot only (no blanks or
+  // continuation pages) so the FrontMatter TOC — built later from it — reflects
+  // the final page numbers.
+  type MiddlePage = Omit<PlannedPage, 'firstPage' | 'isSpread'>;
+  let cursor = FIRST_CONTENT_PAGE;
+  const contentAssignments: TemplateAssignment[] = [];
+  const middlePages: MiddlePage[] = [];
+  for (const item of orderedItems) {
+    if (opensSpread(item) && cursor % 2 === 1) {
+      console.warn(`[assembly] alignment fallback: blank filler inserted before spread at page ${cursor}`);
+      middlePages.push({ templateName: 'BlankPage', data: { season }, pageCount: 1, source: 'filler', filler: 'alignment' });
+      cursor += 1;
+    }
+    const assignment = selectTemplate(item, cursor);
+    contentAssignments.push(assignment);
+    middlePages.push({
+      templateName: assignment.templateName, data: assignment.data, pageCount: assignment.pageCount,
+      source: selectionSource(item),
+    });
+    continuationPages(item, cursor).forEach((page, i) => {
+      middlePages.push({
+        templateName: page.templateName, data: page.data, pageCount: 1,
+        source: `${selectionSource(item)}:continued:${i + 1}`,
+      });
+    });
+    cursor += itemPageCount(item);
+  }
+
+  // ── Pad for saddle stitching ───────────────────────────────────────────────
+  // Fillers go after the last content page and before the colophon, so they can
+  // never split a spread and the colophon stays on the last page.
+  const paddingPages = paddingForMultiple(cursor, options.pageMultiple ?? SADDLE_STITCH_MULTIPLE);
+  for (let i = 0; i < paddingPages; i++) {
+    middlePages.push({ templateName: 'BlankPage', data: { season }, pageCount: 1, source: 'filler', filler: 'padding' });
+  }
+  cursor += paddingPages;
+  if (paddingPages > 0) console.log(`[assembly] Padding: ${paddingPages} blank page(s) before the colophon`);
+
+  const colophonPage = cursor;
+
+  // ── Build Cover ────────────────────────────────────────────────────────────
+  const coverData: CoverData = { page: 1, season, volume: period.volume ?? 'I', issue: period.issue ?? 1 };
+
+  // ── Build FrontMatter TOC (now that all page numbers are known) ────────────
+  const toc: TocEntry[] = contentAssignments
+    .filter(a => a.data && 'contributor' in a.data && 'page_title' in a.data)
+    .map(a => {
+      const d = a.data as { contributor: { name: string }; page_title: string; type: string; page: number };
+      return { page: d.page, contributor: d.contributor.name, type: normalizeContentType(d.type), title: d.page_title };
+    });
+
+  const frontMatterData: FrontMatterData = {
+    page: 3, curator, season, toc,
+  };
+
+  // ── Build Colophon ─────────────────────────────────────────────────────────
+  const colophonData: ColophonData = {
+    page: colophonPage, season,
+    credits: colophonCredits(orderedItems),
+    printer: 'Magcloud',
+    edition_number: edition.number,
+    edition_total: edition.total,
+  };
+
+  // ── Full page sequence ─────────────────────────────────────────────────────
+  const sequence: MiddlePage[] = [
+    { templateName: 'CoverA',       data: coverData,       pageCount: 1, source: 'cover' },
+    { templateName: 'BlankPage',    data: { season },      pageCount: 1, source: 'inside-cover' },
+    { templateName: 'FrontMatter',  data: frontMatterData, pageCount: 1, source: 'front-matter' },
+    ...middlePages,
+    { templateName: 'ColophonPage', data: colophonData,    pageCount: 1, source: 'colophon' },
+  ];
+
+  let firstPage = 1;
+  const pages: PlannedPage[] = sequence.map(spec => {
+    const planned = {
+      ...spec,
+      firstPage,
+      isSpread: spec.pageCount === 2 && SPREAD_TEMPLATES.has(spec.templateName),
+    };
+    firstPage += spec.pageCount;
+    return planned;
+  });
+
+  console.log(`[assembly] Page sequence: ${pages.length} template slots, ${colophonPage} total pages`);
+
+  return {
+    plan: {
+      curatorId,
+      periodId,
+      periodName: period.name,
+      season,
+      templateSet: bundle.manifest.templateSet,
+      curator,
+      pages,
+      pageCount: colophonPage,
+      paddingPages,
+    },
+    bundle,
+    collabPicks,
+  };
+}
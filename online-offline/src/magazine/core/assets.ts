@@ -0,0 +1,104 @@
+// src/magazine/core/assets.ts — Locally vendored assets inlined into every rendered page.
+// Fonts and the React runtime live in src/magazine/assets (written by
+// scripts/vendor-magazine-assets.ts) so a page never fetches anything at render time.
+// A missing or unreadable asset throws MagazineAssetError — there is no fallback to
+// system fonts or a CDN.
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+const ASSET_BASE = join(process.cwd(), 'src/magazine/assets');
+const FONT_DIR = join(ASSET_BASE, 'fonts');
+const FONT_MANIFEST_PATH = join(FONT_DIR, 'manifest.json');
+const REACT_RUNTIME_PATH = join(ASSET_BASE, 'vendor/react-runtime.js');
+
+export interface FontFaceAsset {
+  family: string;
+  style: 'normal' | 'italic';
+  weight: number;
+  file: string;
+  unicodeRange?: string;
+}
+
+export class MagazineAssetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MagazineAssetError';
+  }
+}
+
+function readAsset(path: string, label: string): Buffer {
+  if (!existsSync(path)) {
+    throw new MagazineAssetError(
+      `Missing magazine asset (${label}): ${path} — run \`npm run vendor-assets\``
+    );
+  }
+  return readFileSync(path);
+}
+
+// Assets are immutable for the life of the process, so each is read and encoded once.
+const assetCache = new Map<string, string>();
+
+function cached(key: string, load: () => string): string {
+  let value = assetCache.get(key);
+  if (value === undefined) {
+    value = load();
+    assetCache.set(key, value);
+  }
+  return value;
+}
+
+// Inline script content must not terminate its own <script> element.
+export function escapeInlineScript(code: string): string {
+  return code.replace(/<\/script/gi, '<\\/script');
+}
+
+// ─── Fonts ────────────────────────────────────────────────────────────────────
+
+export function fontFaceCss(): string {
+  return cached('fonts', () => {
+    const manifest = JSON.parse(
+      readAsset(FONT_MANIFEST_PATH, 'font manifest').toString('utf-8')
+    ) as FontFaceAsset[];
+    if (manifest.length === 0) throw new MagazineAssetError(`Font manifest is empty: ${FONT_MANIFEST_PATH}`);
+
+    return manifest.map(face => {
+      const base64 = readAsset(join(FONT_DIR, face.file), `${face.family} ${face.weight} ${face.style}`)
+        .toString('base64');
+      return `@font-face {
+  font-family: '${face.family}';
+  font-style: ${face.style};
+  font-weight: ${face.weight};
+  font-display: block;
+  src: url(data:font/woff2;base64,${base64}) format('woff2');${face.unicodeRange ? `\n  unicode-range: ${face.unicodeRange};` : ''}
+}`;
+    }).join('\n');
+  });
+}
+
+// ─── React Runtime ────────────────────────────────────────────────────────────
+
+export function reactRuntimeJs(): string {
+  return cached('react', () =>
+    escapeInlineScript(readAsset(REACT_RUNTIME_PATH, 'React runtime').toString('utf-8'))
+  );
+}
+
+// ─── Page Head ────────────────────────────────────────────────────────────────
+// Fonts are forced to load before the renderer screenshots: window.__magazine_fonts__
+// rejects naming the face that failed, so a corrupt font fails the page rather than
+// silently rendering in a fallback face.
+
+export function assetHeadHtml(): string {
+  return `<style>
+${fontFaceCss()}
+  </style>
+  <script>${reactRuntimeJs()}</script>
+  <script>
+    window.__magazine_fonts__ = Promise.all(Array.from(document.fonts).map(function (f) {
+      return f.load().catch(function () {
+        throw new Error('Font failed to load: ' + f.family + ' ' + f.weight + ' ' + f.style);
+      });
+    }));
+  </script>`;
+}
@@ -0,0 +1,126 @@
+// src/magazine/core/batch.ts — End-of-quarter batch run: every curator's edition for a period.
+// Curators are discovered the same way the admin page lists them (anyone with a creator
+// selection in the period). Editions are generated one after another; a failure is
+// recorded and the run moves on. The manifest is rewritten after every edition so an
+// interrupted run still leaves an accurate record.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import { fetchSelectionCuratorIds } from './assembly';
+import { generateMagazine, makeClient, type GenerateOptions } from './generator';
+
+export interface BatchCurator {
+  id: string;
+  name: string;
+  selectionCount: number;
+}
+
+export interface BatchEditionResult {
+  curatorId: string;
+  curatorName: string;
+  status: 'generated' | 'failed';
+  outputPath: string | null;
+  imposedPath: string | null;
+  pageCount: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface BatchManifest {
+  periodId: string;
+  periodName: string;
+  startedAt: string;
+  finishedAt: string | null;
+  generated: number;
+  failed: number;
+  editions: BatchEditionResult[];
+}
+
+// Curators with at least one creator selection in the period, most selections first.
+// Mirrors the query in src/app/admin/page.tsx.
+export async function discoverCurators(db: SupabaseClient, periodId: string): Promise<BatchCurator[]> {
+  const selectionCuratorIds = await fetchSelectionCuratorIds(db, periodId);
+  const curatorIds = [...new Set(selectionCuratorIds)];
+  if (curatorIds.length === 0) return [];
+
+  const { data: profiles } = await db
+    .from('profiles')
+    .select('id, first_name, last_name')
+    .in('id', curatorIds);
+
+  const countMap: Record<string, number> = {};
+  for (const id of selectionCuratorIds) {
+    countMap[id] = (countMap[id] ?? 0) + 1;
+  }
+
+  const names = new Map(
+    ((profiles ?? []) as Array<{ id: string; first_name?: string; last_name?: string }>)
+      .map(p => [p.id, `${p.first_name ?? ''} ${p.last_name ?? ''}`.trim() || 'Unknown'])
+  );
+
+  return curatorIds
+    .map(id => ({ id, name: names.get(id) ?? 'Unknown', selectionCount: countMap[id] ?? 0 }))
+    .sort((a, b) => b.selectionCount - a.selectionCount);
+}
+
+// Every edition PDF and manifest.json land in options.outputDir
+// (default /tmp/magazines-<periodId>).
+export async function generatePeriod(
+  periodId: string,
+  options: GenerateOptions = {}
+): Promise<{ manifest: BatchManifest; manifestPath: string }> {
+  const db = makeClient();
+  const { data: period, error } = await db
+    .from('periods')
+    .select('id, name')
+    .eq('id', periodId)
+    .single();
+  if (error || !period) throw new Error(`Period not found: ${periodId}`);
+
+  const outputDir = options.outputDir ?? `/tmp/magazines-${periodId}`;
+  mkdirSync(outputDir, { recursive: true });
+  const manifestPath = join(outputDir, 'manifest.json');
+
+  const curators = await discoverCurators(db, periodId);
+  console.log(`[batch] ${curators.length} curator(s) with selections for ${(period as { name: string }).name}`);
+
+  const manifest: BatchManifest = {
+    periodId,
+    periodName: (period as { name: string }).name,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    generated: 0,
+    failed: 0,
+    editions: [],
+  };
+  const writeManifest = () => writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+
+  for (const [i, curator] of curators.entries()) {
+    console.log(`[batch] [${i + 1}/${curators.length}] ${curator.name} (${curator.id})`);
+    const started = Date.now();
+    try {
+      const { outputPath, imposedPath, pageCount } = await generateMagazine(curator.id, periodId, { ...options, outputDir });
+      manifest.editions.push({
+        curatorId: curator.id, curatorName: curator.name, status: 'generated',
+        outputPath, imposedPath: imposedPath ?? null, pageCount, error: null, durationMs: Date.now() - started,
+      });
+      manifest.generated++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[batch] ${curator.name} failed: ${message}`);
+      manifest.editions.push({
+        curatorId: curator.id, curatorName: curator.name, status: 'failed',
+        outputPath: null, imposedPath: null, pageCount: null, error: message, durationMs: Date.now() - started,
+      });
+      manifest.failed++;
+    }
+    writeManifest();
+  }
+
+  manifest.finishedAt = new Date().toISOString();
+  writeManifest();
+  console.log(`[batch] Done: ${manifest.generated} generated, ${manifest.failed} failed. Manifest: ${manifestPath}`);
+  return { manifest, manifestPath };
+}
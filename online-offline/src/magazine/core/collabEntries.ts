@@ -0,0 +1,76 @@
+// src/magazine/core/collabEntries.ts — Which submissions a collab spread prints.
+// Every collab spread has room for COLLAB_SPREAD_MAX_ENTRIES images. Only submitted
+// entries are eligible; each participation mode then picks differently:
+//   community — a sample, seeded per edition (curator, period, collab)
+//   local     — entries from participants in the curator's chosen city, sampled the same way
+//   private   — every member first: one entry each, then more in turn while room remains
+// The generator records the pick on the curator's selection once the edition has printed,
+// so a reprint matches it.
+
+import { rankedSample } from '../../lib/seededSample';
+
+import type { ParticipationMode } from './types';
+
+export const COLLAB_SPREAD_MAX_ENTRIES = 6;
+
+export interface CollabCandidate {
+  id: string;
+  contributorId: string;
+  // The participant's city for the collab, else their profile city
+  city: string;
+  createdAt: string;
+}
+
+export interface CollabPickContext {
+  curatorId: string;
+  periodId: string;
+  collabId: string;
+  // The city the curator chose for a local collab
+  location?: string;
+}
+
+// "Pensacola, FL" and "pensacola" name the same city
+function cityKey(city: string): string {
+  return city.toLowerCase().split(',')[0].trim();
+}
+
+function byCreated(a: CollabCandidate, b: CollabCandidate): number {
+  return a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+}
+
+// One entry per member, earliest first, then each member's next, until the spread is full
+function pickPrivate(candidates: CollabCandidate[]): CollabCandidate[] {
+  const byMember = new Map<string, CollabCandidate[]>();
+  for (const c of [...candidates].sort(byCreated)) {
+    const list = byMember.get(c.contributorId);
+    if (list) list.push(c);
+    else byMember.set(c.contributorId, [c]);
+  }
+  const picked: CollabCandidate[] = [];
+  for (let round = 0; picked.length < COLLAB_SPREAD_MAX_ENTRIES; round++) {
+    const turn = [...byMember.values()].map(list => list[round]).filter(Boolean);
+    if (turn.length === 0) break;
+    picked.push(...turn.slice(0, COLLAB_SPREAD_MAX_ENTRIES - picked.length));
+  }
+  return picked;
+}
+
+// Ids of the entries to print, in print order (oldest first). Candidates must already be
+// limited to submitted entries.
+export function pickCollabEntries(
+  mode: ParticipationMode,
+  candidates: CollabCandidate[],
+  context: CollabPickContext
+): string[] {
+  if (mode === 'private') return pickPrivate(candidates).map(c => c.id);
+
+  let pool = candidates;
+  if (mode === 'local' && context.location) {
+    const city = cityKey(context.location);
+    pool = candidates.filter(c => cityKey(c.city) === city);
+  }
+  const seed = `${context.curatorId}:${context.periodId}:${context.collabId}`;
+  return rankedSample(pool, c => c.id, seed, COLLAB_SPREAD_MAX_ENTRIES)
+    .sort(byCreated)
+    .map(c => c.id);
+}
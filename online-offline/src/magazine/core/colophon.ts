@@ -0,0 +1,45 @@
+// src/magazine/core/colophon.ts — Colophon credits: everyone who appears in an edition,
+// once each, grouped by how they appear. Someone credited under an earlier role is not
+// repeated under a later one: a creator who also has an entry on a collab spread is a
+// contributor, a collaborator who also wrote in is a collaborator. Within a role, people
+// are listed in the order they first appear in print.
+
+import type { ColophonCredits, ContributorData, CreditRole, SelectionItem } from './types';
+
+export const CREDIT_ROLES: CreditRole[] = ['contributor', 'collaborator', 'correspondent', 'campaign'];
+
+type Credit = [CreditRole, ContributorData];
+
+// Who an item credits, and as what. Placeholders for missing profiles carry no id and
+// are left out.
+function creditsOf(item: SelectionItem): Credit[] {
+  switch (item.kind) {
+    case 'creator':
+      return [['contributor', item.contributor]];
+    case 'collab':
+      return [...item.entries.map(e => e.contributor), ...(item.members ?? [])]
+        .map((person): Credit => ['collaborator', person]);
+    case 'communications':
+      return item.messages.map((m): Credit => ['correspondent', m.from]);
+    case 'campaign':
+      return [['campaign', { id: `campaign:${item.campaignId}`, name: item.campaignName, city: '' }]];
+  }
+}
+
+// Credits for the items in print order
+export function colophonCredits(items: SelectionItem[]): ColophonCredits[] {
+  const credited = new Set<string>();
+  const byRole = new Map<CreditRole, ContributorData[]>(CREDIT_ROLES.map(role => [role, []]));
+
+  const found = items.flatMap(creditsOf)
+    .sort(([a], [b]) => CREDIT_ROLES.indexOf(a) - CREDIT_ROLES.indexOf(b));
+  for (const [role, person] of found) {
+    if (!person.id || credited.has(person.id)) continue;
+    credited.add(person.id);
+    byRole.get(role)!.push(person);
+  }
+
+  return CREDIT_ROLES
+    .map(role => ({ role, people: byRole.get(role)! }))
+    .filter(credit => credit.people.length > 0);
+}
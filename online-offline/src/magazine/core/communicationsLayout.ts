@@ -0,0 +1,90 @@
+// src/magazine/core/communicationsLayout.ts — Spreading a curator's dispatches over as many
+// CommunicationsPages as they need. Cards are never clipped or split: each page holds two
+// columns of whole messages, filled top to bottom (CSS columns in the template), and a
+// message moves on to the next column or page when it would not fit. Heights are
+// estimated from word counts; the estimates err large so a card never runs off a page.
+
+import type { CommunicationMessage } from './types';
+
+// ─── Geometry (CommunicationsPage in templates-9-11.jsx) ──────────────────────
+
+const COLUMNS_PER_PAGE = 2;
+// Column height between the page intro and the folio
+const COLUMN_HEIGHT = 820;
+// From / name / subject / date above the body, plus the gap under each card
+const CARD_CHROME = 104;
+// Body: 11.5px italic serif at 1.82 line height in a 316px column
+const BODY_LINE_HEIGHT = 21;
+const BODY_WORDS_PER_LINE = 9;
+// A subject long enough to wrap takes a second line
+const SUBJECT_WRAP_CHARS = 48;
+const SUBJECT_LINE_HEIGHT = 13;
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function cardHeight(message: CommunicationMessage): number {
+  const paragraphs = message.body.split(/\n\s*\n/).filter(p => p.trim());
+  const lines = paragraphs.reduce((n, p) => n + Math.max(1, Math.ceil(countWords(p) / BODY_WORDS_PER_LINE)), 0);
+  const subjectLines = message.subject ? Math.ceil(message.subject.length / SUBJECT_WRAP_CHARS) : 0;
+  return CARD_CHROME + Math.max(0, subjectLines - 1) * SUBJECT_LINE_HEIGHT + lines * BODY_LINE_HEIGHT;
+}
+
+// ─── Pagination ───────────────────────────────────────────────────────────────
+
+// Packs cards in order into columns no taller than columnHeight
+function pack(heights: number[], columnHeight: number): number[][] {
+  const pages: number[][] = [];
+  let column = -1;
+  let used = 0;
+  heights.forEach((height, i) => {
+    if (column < 0 || (used > 0 && used + height > columnHeight)) {
+      column++;
+      used = 0;
+      if (column === 0 || column === COLUMNS_PER_PAGE) {
+        pages.push([]);
+        column = 0;
+      }
+    }
+    pages[pages.length - 1].push(i);
+    used += height;
+  });
+  return pages;
+}
+
+// Messages per page, in their given order. One page when they fit; otherwise an even
+// number, so the pages after the first come in pairs and whatever follows keeps its
+// spread alignment. The cards are balanced across the pages rather than leaving the
+// last one nearly empty.
+export function paginateCommunications(messages: CommunicationMessage[]): CommunicationMessage[][] {
+  if (messages.length === 0) return [];
+  const heights = messages.map(cardHeight);
+  for (const [i, height] of heights.entries()) {
+    if (height > COLUMN_HEIGHT) {
+      console.warn(`[communications] message from ${messages[i].from.name} is taller than a page column`);
+    }
+  }
+
+  let pages = pack(heights, COLUMN_HEIGHT);
+  if (pages.length > 1) {
+    const target = pages.length + (pages.length % 2);
+    // The shortest columns that still fit everything on target pages
+    let lo = Math.max(...heights);
+    let hi = Math.max(lo, COLUMN_HEIGHT);
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (pack(heights, mid).length <= target) hi = mid; else lo = mid + 1;
+    }
+    pages = pack(heights, lo);
+    // Cards too tall to share a column can leave a page short; split the fullest page.
+    while (pages.length < target) {
+      const fullest = pages.reduce((best, page, i) => (page.length > pages[best].length ? i : best), 0);
+      const cards = pages[fullest];
+      if (cards.length < 2) break;
+      const half = Math.ceil(cards.length / 2);
+      pages.splice(fullest, 1, cards.slice(0, half), cards.slice(half));
+    }
+  }
+  return pages.map(indices => indices.map(i => messages[i]));
+}
@@ -0,0 +1,187 @@
+// src/magazine/core/contentOrder.ts — The order content pages print in. Reorders the
+// curator's selections ONLY — it never changes which template an item gets. Goals, in
+// strict priority: (1) every two-page spread starts on an even page so it reads across
+// the fold; (2) spreads are separated by single-page "mortar" where possible; (3)
+// content types are dispersed rather than clumped. Pieces the curator pinned in their
+// running order keep their position (orderWithPins).
+
+import { COMMUNICATIONS_SOURCE } from '../../lib/runningOrder';
+
+import { continuationPages, selectTemplate } from './selectionLogic';
+import type { SelectionItem } from './types';
+
+// Cover = 1, blank inside cover = 2, FrontMatter = 3; content starts on the even page 4.
+export const FIRST_CONTENT_PAGE = 4;
+
+export type OrderableItem = { item: SelectionItem; pageCount: number; typeKey: string };
+
+// Running order source for an item (see src/lib/runningOrder.ts)
+export function selectionSource(item: SelectionItem): string {
+  switch (item.kind) {
+    case 'creator':        return `creator:${item.creatorId}`;
+    case 'collab':         return `collab:${item.collabId}`;
+    case 'communications': return COMMUNICATIONS_SOURCE;
+    case 'campaign':       return `campaign:${item.campaignId}`;
+  }
+}
+
+// Pages an item fills, continuation pages included
+export function itemPageCount(item: SelectionItem): number {
+  return selectTemplate(item, 0).pageCount + continuationPages(item, 0).length;
+}
+
+// Whether an item starts with a two-page spread, which has to open on an even page
+export function opensSpread(item: SelectionItem): boolean {
+  return selectTemplate(item, 0).pageCount === 2;
+}
+
+// The dispersion type for an item (used to space same-type items apart).
+export function dispersalTypeKey(item: SelectionItem): string {
+  switch (item.kind) {
+    case 'creator':        return item.contentType;   // photography|art|essay|poetry|music
+    case 'collab':         return 'collab';
+    case 'communications': return 'communication';
+    case 'campaign':       return 'campaign';
+  }
+}
+
+// Deterministic round-robin interleave by type so same-type items are spaced
+// apart. Largest type groups are drawn first each round so they don't bunch up
+// at the end. This is an even/varied distribution — not randomness.
+export function interleaveByType(items: OrderableItem[]): OrderableItem[] {
+  const buckets = new Map<string, OrderableItem[]>();
+  for (const it of items) {
+    const arr = buckets.get(it.typeKey);
+    if (arr) arr.push(it);
+    else buckets.set(it.typeKey, [it]);
+  }
+  const keys = [...buckets.keys()].sort((a, b) => buckets.get(b)!.length - buckets.get(a)!.length);
+  const out: OrderableItem[] = [];
+  let remaining = items.length;
+  while (remaining > 0) {
+    for (const k of keys) {
+      const arr = buckets.get(k)!;
+      if (arr.length) { out.push(arr.shift()!); remaining--; }
+    }
+  }
+  return out;
+}
+
+// Order content items for a varied, spread-aligned flow. Content starts on the
+// even page 4, so alignment depends only on how many single pages precede each
+// spread — an EVEN number keeps the spread even-aligned. Singles are therefore
+// placed as even-sized pairs of "mortar": a pair both separates two spreads AND
+// preserves alignment (a lone single would flip parity and misalign the next
+// spread). A non-spread item with an even number of pages (communications that
+// run to a pair of pages) is mortar on its own. A spread whose text runs onto an
+// odd number of continuation pages ends on the wrong parity, so a single follows it
+// straight away. Returns a pure reordering — no blank fillers (those are a
+// last-resort safety net applied during page numbering).
+export function orderContentForFlow(items: SelectionItem[]): SelectionItem[] {
+  const orderable: OrderableItem[] = items.map(item => ({
+    item,
+    pageCount: itemPageCount(item),
+    typeKey: dispersalTypeKey(item),
+  }));
+
+  const spreads = interleaveByType(orderable.filter(o => opensSpread(o.item)));
+  const nonSpreads = orderable.filter(o => !opensSpread(o.item));
+  const singles = interleaveByType(nonSpreads.filter(o => o.pageCount % 2 === 1));
+  const evens = nonSpreads.filter(o => o.pageCount % 2 === 0);
+  const S = spreads.length;
+
+  // No spreads → nothing to align; emit everything else in dispersed order.
+  if (S === 0) return interleaveByType(nonSpreads).map(o => o.item);
+
+  // Spread blocks, each an even number of pages: a spread of odd length takes a single
+  // behind it. Any left without one go last, so they can only misalign each other.
+  const blocks: SelectionItem[][] = [];
+  const unevened: SelectionItem[][] = [];
+  for (const o of spreads) {
+    if (o.pageCount % 2 === 0) blocks.push([o.item]);
+    else if (singles.length > 0) blocks.push([o.item, singles.pop()!.item]);
+    else unevened.push([o.item]);
+  }
+  blocks.push(...unevened);
+
+  // Mortar units: pairs of singles, with each even-length item spaced evenly among them.
+  const units: SelectionItem[][] = [];
+  for (let si = 0; si + 1 < singles.length; si += 2) units.push([singles[si].item, singles[si + 1].item]);
+  const pairCount = units.length;
+  evens.forEach((o, i) => {
+    units.splice(Math.round(((i + 1) * pairCount) / (evens.length + 1)) + i, 0, [o.item]);
+  });
+  const leftover = singles.length % 2 === 1 ? singles[singles.length - 1].item : null;
+
+  // Distribute the mortar units into the gaps before each spread (gap g precedes
+  // blocks[g]) plus a tail gap after the last spread. Gaps before spreads must
+  // hold an even page count to preserve alignment; the tail may hold the single
+  // leftover. Units are spaced EVENLY through the sequence (not front- or
+  // back-loaded) so separation and type variety are distributed rather than clumped.
+  const pairs = units.length;
+  const gapPairs = new Array<number>(S).fill(0);   // units placed before blocks[g]
+  let tailPairs = 0;
+  const interSlots = S - 1;                         // gaps between consecutive spreads
+  if (interSlots === 0) {
+    // Single spread: split the mortar before/after so singles don't clump on one side.
+    gapPairs[0] = Math.floor(pairs / 2);
+    tailPairs   = pairs - gapPairs[0];
+  } else {
+    // Every inter-spread gap gets an equal base of units (separating all spreads
+    // when supply allows); the remaining units land on evenly-spaced gaps, which
+    // divides the spreads into roughly equal runs.
+    const base = Math.floor(pairs / interSlots);
+    for (let g = 1; g < S; g++) gapPairs[g] = base;
+    const rem = pairs - base * interSlots;          // 0..interSlots-1 leftover units
+    for (let i = 1; i <= rem; i++) {
+      let g = Math.round((i * S) / (rem + 1));
+      if (g < 1) g = 1;
+      if (g > S - 1) g = S - 1;
+      gapPairs[g] += 1;
+    }
+  }
+
+  const ordered: SelectionItem[] = [];
+  let ui = 0;
+  for (let g = 0; g < S; g++) {
+    for (let p = 0; p < gapPairs[g]; p++) ordered.push(...units[ui++]);
+    ordered.push(...blocks[g]);
+  }
+  for (let p = 0; p < tailPairs; p++) ordered.push(...units[ui++]);
+  if (leftover) ordered.push(leftover);   // leftover odd single
+  return ordered;
+}
+
+// Applies the curator's pins (source → zero-based content position) on top of
+// orderContentForFlow. Pinned items sit exactly where the curator put them; the rest
+// keep their flow order in the free positions, except that a free position on an odd
+// page takes the next odd-length piece instead of a spread (the rule 4 bump), so spreads
+// pushed around by a pin, or by an essay's continuation pages, still open flat where
+// such a piece is available. An aligned flow order passes through unchanged. Anything
+// still misaligned gets a blank filler later.
+export function orderWithPins(items: SelectionItem[], pins: Map<string, number>): SelectionItem[] {
+  const pinnedAt = new Map<number, SelectionItem>();
+  for (const item of items) {
+    const position = pins.get(selectionSource(item));
+    if (position !== undefined && !pinnedAt.has(position)) pinnedAt.set(position, item);
+  }
+
+  const pinnedItems = new Set(pinnedAt.values());
+  const queue = orderContentForFlow(items.filter(item => !pinnedItems.has(item)));
+  const ordered: SelectionItem[] = [];
+  let cursor = FIRST_CONTENT_PAGE;
+  for (let position = 0; position < items.length; position++) {
+    let item = pinnedAt.get(position);
+    if (!item) {
+      let pick = 0;
+      if (cursor % 2 === 1 && opensSpread(queue[0])) {
+        const bump = queue.findIndex(q => !opensSpread(q) && itemPageCount(q) % 2 === 1);
+        if (bump >= 0) pick = bump;
+      }
+      [item] = queue.splice(pick, 1);
+    }
+    ordered.push(item);
+    cursor += itemPageCount(item);
+  }
+  return ordered;
+}
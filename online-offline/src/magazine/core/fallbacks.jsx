@@ -0,0 +1,28 @@
+// fallbacks.jsx — Pages the pipeline supplies itself rather than a template set.
+// Compiled into the template bundle after primitives.jsx (constants and C/F come from there).
+
+// BlankPage — alignment filler and inside-cover verso
+function BlankPage() {
+  return <div style={{ width:AW, height:AH, background:C.ground }}/>;
+}
+
+// PlaceholderPage — stands in for any template name the bundle does not define
+function PlaceholderPage({ templateName='Template' }) {
+  return (
+    <div style={{
+      width:AW, height:AH, background:C.ground,
+      display:'flex', flexDirection:'column',
+      alignItems:'center', justifyContent:'center',
+      fontFamily:F.mono, color:C.paper, gap:16,
+    }}>
+      <div style={{ fontSize:18, letterSpacing:'0.1em', color:C.gold }}>
+        {templateName}
+      </div>
+      <div style={{ fontSize:10, color:'rgba(240,235,226,0.4)', letterSpacing:'0.08em' }}>
+        Template not yet implemented
+      </div>
+    </div>
+  );
+}
+
+Object.assign(window, { BlankPage, PlaceholderPage });
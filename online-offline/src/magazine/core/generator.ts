@@ -1,76 +1,66 @@
 // src/magazine/core/generator.ts — Magazine generation pipeline.
-// Reads curator selections from Supabase, maps to templates, renders via Puppeteer, outputs PDF.
+// Renders the edition plan from ./assembly via Puppeteer and assembles the PDF.
+// Pages are fully self-contained (see ./assets) and share one precompiled template bundle
+// (see ./templateBundle) — rendering makes no CDN requests and runs no JSX compiler.
 
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import puppeteer from 'puppeteer';
 import { PDFDocument } from 'pdf-lib';
-import { readFileSync, writeFileSync } from 'fs';
+import { writeFileSync } from 'fs';
 import { join } from 'path';
 
-import { selectTemplate } from './selectionLogic';
-import type {
-  SelectionItem,
-  SelectionItemCreator,
-  SelectionItemCollab,
-  SelectionItemCommunications,
-  SelectionItemCampaign,
-  CoverData,
-  FrontMatterData,
-  ColophonData,
-  TocEntry,
-  TemplateAssignment,
-  ContentType,
-  ParticipationMode,
-  CommunicationMessage,
-  CollabEntryData,
-  ContentEntryData,
-} from './types';
+import {
+  assembleEdition,
+  recordCollabEntries,
+  type AssembleOptions,
+  type AssembledEdition,
+  type EditionPlan,
+  type PlannedPage,
+  type TextMeasurer,
+} from './assembly';
+import { imposeSaddleStitch } from './imposition';
+import { AH, AW, SPREAD_TEMPLATES, buildPageHtml } from './pageHtml';
+import { addImposedInfo, addNavigation } from './pdfNavigation';
+import { exportPlan, type PlanExport } from './plan';
+import {
+  DEFAULT_PREFLIGHT_THRESHOLDS,
+  PreflightError,
+  buildPreflightReport,
+  checkMedia,
+  formatPreflightReport,
+  inspectLoadedPage,
+  type PreflightIssue,
+  type PreflightReport,
+  type PreflightThresholds,
+} from './preflight';
+import {
+  DEFAULT_RENDER_CACHE_DIR,
+  fetchMediaChecksums,
+  pruneRenderCache,
+  readCacheEntry,
+  slotCacheKey,
+  writeCacheEntry,
+} from './renderCache';
+import {
+  RenderError,
+  captureRenderProblems,
+  formatFailedSlot,
+  type FailedSlot,
+  type RenderProblem,
+} from './renderErrors';
+import type { TemplateBundle } from './templateBundle';
+import { measureLoadedRegion } from './textFlow';
+import type { TemplateAssignment } from './types';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
-const AW = 790;
-const AH = 1054;
-const TEMPLATE_BASE = join(process.cwd(), 'src/magazine/templates/base');
-const PRIMITIVES_PATH = join(process.cwd(), 'src/magazine/core/primitives.jsx');
-
-// Maps template name → JSX file (null = not yet implemented, renders placeholder)
-const TEMPLATE_FILE_MAP: Record<string, string | null> = {
-  CoverA:                'templates-1-4.jsx',
-  BlankPage:             null,
-  SinglePhoto:           'templates-1-4.jsx',
-  TextSubmission:        'templates-5-8.jsx',
-  CommunicationsPage:    'templates-9-11.jsx',
-  Spread:                'templates-9-11.jsx',
-  CampaignPage:          'templates-9-11.jsx',
-  Spread2:               'templates-12-17.jsx',
-  Spread4:               'templates-12-17.jsx',
-  Spread6:               'templates-12-17.jsx',
-  TextSpread:            'templates-12-17.jsx',
-  MusicPage:             'templates-12-17.jsx',
-  ColophonPage:          'templates-12-17.jsx',
-  SpreadPanorama:        'templates-18-19.jsx',
-  SpreadMosaic:          'templates-18-19.jsx',
-  FrontMatter:           'templates-20-24.jsx',
-  PoetryPage:            'templates-20-24.jsx',
-  CollabSpreadCommunity: 'templates-20-24.jsx',
-  CollabSpreadLocal:     'templates-20-24.jsx',
-  CollabSpreadPrivate:   'templates-20-24.jsx',
-};
-
-// Templates that render as double-width spreads (1580 × 1054 CSS pixels)
-const SPREAD_TEMPLATES = new Set([
-  'Spread', 'SpreadPanorama', 'Spread2', 'Spread4', 'SpreadMosaic', 'Spread6',
-  'TextSpread', 'CollabSpreadCommunity', 'CollabSpreadLocal', 'CollabSpreadPrivate',
-]);
-
-// Content type ordering for page sequencing
-const CONTENT_TYPE_ORDER: Record<string, number> = {
-  photography: 0, art: 1, essay: 2, poetry: 3, music: 4,
-};
+const RASTER_SCALE = 4; // deviceScaleFactor for the raster path (~300dpi equivalent)
+const DEFAULT_RENDER_CONCURRENCY = 4;
+const DEFAULT_RENDER_RETRIES = 1;
 
 // ─── Supabase Client ──────────────────────────────────────────────────────────
 
-function makeClient(): SupabaseClient {
+export function makeClient(): SupabaseClient {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const key = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
   if (!url || !key) {
@@ -81,629 +71,556 @@ function makeClient(): SupabaseClient {
   return createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
 }
 
-// ─── HTML Page Builder ────────────────────────────────────────────────────────
-
-function buildPageHtml(templateName: string, data: unknown): string {
-  const primitivesCode = readFileSync(PRIMITIVES_PATH, 'utf-8');
-  const templateFile = TEMPLATE_FILE_MAP[templateName];
-
-  const templateCode = templateFile
-    ? readFileSync(join(TEMPLATE_BASE, templateFile), 'utf-8')
-    : templateName === 'BlankPage'
-    ? `function BlankPage({ data={} }) {
-        return (
-          <div style={{
-            width: 790, height: 1054,
-            background: '#252119',
-          }}/>
-        );
-      }`
-    : `function ${templateName}({ data={} }) {
-        const label = String(data.templateName || '${templateName}');
-        return (
-          <div style={{
-            width: 790, height: 1054, background: '#252119',
-            display: 'flex', flexDirection: 'column',
-            alignItems: 'center', justifyContent: 'center',
-            fontFamily: "'Courier Prime', monospace", color: '#f0ebe2', gap: 16,
-          }}>
-            <div style={{ fontSize: 18, letterSpacing: '0.1em', color: '#e8a020' }}>
-              {label}
-            </div>
-            <div style={{ fontSize: 10, color: 'rgba(240,235,226,0.4)', letterSpacing: '0.08em' }}>
-              Template not yet implemented
-            </div>
-          </div>
-        );
-      }`;
-
-  const isSpread = SPREAD_TEMPLATES.has(templateName);
-  const pageW = isSpread ? AW * 2 : AW;
-  const serialized = JSON.stringify({ templateName, data });
-
-  return `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <link href="https://fonts.googleapis.com/css2?family=Instrument+Serif:ital@0;1&family=Instrument+Sans:wght@300;400;500&family=Courier+Prime&display=swap" rel="stylesheet">
-  <script src="https://unpkg.com/react@18/umd/react.production.min.js"></script>
-  <script src="https://unpkg.com/react-dom@18/umd/react-dom.production.min.js"></script>
-  <script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
-  <style>
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-    body { background: #252119; width: ${pageW}px; height: ${AH}px; overflow: hidden; }
-  </style>
-</head>
-<body>
-  <div id="root"></div>
-  <script>window.__magazine_page__ = ${serialized};</script>
-  <script type="text/babel">
-    ${primitivesCode}
-    ${templateCode}
-    const { templateName: _name, data: _data } = window.__magazine_page__;
-    const _Component = window[_name];
-    if (!_Component) throw new Error('Template not found on window: ' + _name);
-    ReactDOM.createRoot(document.getElementById('root')).render(
-      React.createElement(_Component, { data: _data })
-    );
-  </script>
-</body>
-</html>`;
-}
-
 // ─── Page Renderer ────────────────────────────────────────────────────────────
 
 type PuppeteerBrowser = Awaited<ReturnType<typeof puppeteer.launch>>;
+type PuppeteerPage = Awaited<ReturnType<PuppeteerBrowser['newPage']>>;
+
+// Loads a template into a pooled page, sized to the template, and waits until it is
+// fully drawn (content, images and vendored fonts).
+async function loadTemplateIntoPage(
+  page: PuppeteerPage,
+  slot: Pick<PlannedPage, 'templateName' | 'data' | 'isSpread'>,
+  deviceScaleFactor: number,
+  bundle: TemplateBundle
+): Promise<void> {
+  await page.setViewport({ width: slot.isSpread ? AW * 2 : AW, height: AH, deviceScaleFactor });
+  const html = buildPageHtml(slot.templateName, slot.data, bundle);
+  await page.setContent(html, { waitUntil: 'networkidle0', timeout: 30_000 });
+  await page.evaluate('window.__magazine_fonts__');
+  await page.evaluateHandle('document.fonts.ready');
+  // A template that throws while mounting leaves the root empty
+  if (!await page.evaluate('document.getElementById("root").childElementCount > 0')) {
+    throw new Error(`${slot.templateName} drew nothing`);
+  }
+}
 
-async function renderPageToBuffers(
-  templateName: string,
-  data: unknown,
-  pageCount: number,
-  browser: PuppeteerBrowser
-): Promise<Buffer[]> {
-  const isSpread = pageCount === 2 && SPREAD_TEMPLATES.has(templateName);
-  const viewportW = isSpread ? AW * 2 : AW;
+// Measures flowing text (see ./textFlow) on a page of its own by laying each candidate
+// page out exactly as it will print.
+function textMeasurer(page: PuppeteerPage): TextMeasurer {
+  return async (templateName, data, region, bundle) => {
+    await loadTemplateIntoPage(page, { templateName, data, isSpread: SPREAD_TEMPLATES.has(templateName) }, 1, bundle);
+    return measureLoadedRegion(page, region);
+  };
+}
 
+async function assembleMeasured(
+  db: SupabaseClient,
+  browser: PuppeteerBrowser,
+  curatorId: string,
+  periodId: string,
+  options: AssembleOptions
+): Promise<AssembledEdition> {
   const page = await browser.newPage();
   try {
-    await page.setViewport({ width: viewportW, height: AH, deviceScaleFactor: 4 });
-    const html = buildPageHtml(templateName, data);
-    await page.setContent(html, { waitUntil: 'networkidle0', timeout: 30_000 });
-    await page.evaluateHandle('document.fonts.ready');
-
-    if (isSpread) {
-      const leftBuf = await page.screenshot({
-        type: 'png',
-        clip: { x: 0, y: 0, width: AW, height: AH },
-      });
-      const rightBuf = await page.screenshot({
-        type: 'png',
-        clip: { x: AW, y: 0, width: AW, height: AH },
-      });
-      return [Buffer.from(leftBuf), Buffer.from(rightBuf)];
-    }
-
-    const buf = await page.screenshot({ type: 'png' });
-    return [Buffer.from(buf)];
+    return await assembleEdition(db, curatorId, periodId, { ...options, measureText: textMeasurer(page) });
   } finally {
     await page.close();
   }
 }
 
-// ─── Supabase Data Fetchers ───────────────────────────────────────────────────
+function launchBrowser(): Promise<PuppeteerBrowser> {
+  return puppeteer.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+  });
+}
 
-interface RawProfile {
-  first_name?: string | null;
-  last_name?: string | null;
-  city?: string | null;
-  content_type?: string | null;
+// Runs fn with text measured in a Chromium of its own, for the admin preview and template
+// playground: their text flows across exactly the pages it prints on.
+export async function withTextMeasurer<T>(fn: (measure: TextMeasurer) => Promise<T>): Promise<T> {
+  const browser = await launchBrowser();
+  try {
+    return await fn(textMeasurer(await browser.newPage()));
+  } finally {
+    await browser.close();
+  }
 }
 
-function profileName(p: RawProfile): string {
-  return `${p.first_name ?? ''} ${p.last_name ?? ''}`.trim() || 'Unknown';
+// Raster path: 4× PNG screenshots, one per printed page. Kept for debugging layout
+// differences between screen and print rendering.
+async function renderPageToBuffers(
+  slot: PlannedPage,
+  page: PuppeteerPage,
+  bundle: TemplateBundle
+): Promise<Buffer[]> {
+  await loadTemplateIntoPage(page, slot, RASTER_SCALE, bundle);
+  if (slot.isSpread) {
+    const leftBuf = await page.screenshot({
+      type: 'png',
+      clip: { x: 0, y: 0, width: AW, height: AH },
+    });
+    const rightBuf = await page.screenshot({
+      type: 'png',
+      clip: { x: AW, y: 0, width: AW, height: AH },
+    });
+    return [Buffer.from(leftBuf), Buffer.from(rightBuf)];
+  }
+
+  const buf = await page.screenshot({ type: 'png' });
+  return [Buffer.from(buf)];
 }
 
-async function fetchPeriod(db: SupabaseClient, periodId: string) {
-  const { data, error } = await db
-    .from('periods')
-    .select('id, name, season, year, volume, issue')
-    .eq('id', periodId)
-    .single();
-  if (error || !data) throw new Error(`Period not found: ${periodId}`);
-  return data as { id: string; name: string; season: string; year: number; volume: string | null; issue: number | null };
+// Vector path: Chromium's native PDF printing, so type and rules stay vector and
+// images keep their source resolution. A spread prints as one double-width page;
+// appendVectorPages splits it at the fold.
+async function renderPageToPdf(
+  slot: PlannedPage,
+  page: PuppeteerPage,
+  bundle: TemplateBundle
+): Promise<Buffer> {
+  await loadTemplateIntoPage(page, slot, 1, bundle);
+  const pdf = await page.pdf({
+    width: `${slot.isSpread ? AW * 2 : AW}px`,
+    height: `${AH}px`,
+    margin: { top: 0, right: 0, bottom: 0, left: 0 },
+    printBackground: true,
+    pageRanges: '1',
+  });
+  return Buffer.from(pdf);
 }
 
-async function fetchCuratorProfile(db: SupabaseClient, curatorId: string) {
-  const { data, error } = await db
-    .from('profiles')
-    .select('first_name, last_name, city')
-    .eq('id', curatorId)
-    .single();
-  if (error || !data) throw new Error(`Curator profile not found: ${curatorId}`);
-  const p = data as RawProfile;
-  return { name: profileName(p), city: p.city ?? '' };
+async function renderSlot(
+  slot: PlannedPage,
+  page: PuppeteerPage,
+  bundle: TemplateBundle,
+  output: OutputMode
+): Promise<RenderedOutput> {
+  return output === 'raster'
+    ? { kind: 'raster', buffers: await renderPageToBuffers(slot, page, bundle) }
+    : { kind: 'vector', pdf: await renderPageToPdf(slot, page, bundle) };
 }
 
-async function fetchCreatorItems(
-  db: SupabaseClient,
-  curatorId: string,
-  periodId: string,
-  season: string
-): Promise<SelectionItemCreator[]> {
-  const { data: selections } = await db
-    .from('curator_creator_selections')
-    .select('creator_id')
-    .eq('curator_id', curatorId)
-    .eq('period_id', periodId);
-
-  const creatorIds = (selections ?? []).map((s: { creator_id: string }) => s.creator_id);
-  if (creatorIds.length === 0) return [];
-
-  const { data: contentRows } = await db
-    .from('content')
-    .select(`
-      id, creator_id, type, page_title,
-      profiles:creator_id ( first_name, last_name, city, content_type ),
-      content_entries ( id, title, caption, media_url, focal_x, focal_y, aspect_ratio, order_index )
-    `)
-    .in('creator_id', creatorIds)
-    .eq('period_id', periodId)
-    .neq('status', 'draft');
-
-  const items: SelectionItemCreator[] = [];
-  for (const row of (contentRows ?? []) as Array<Record<string, unknown>>) {
-    const profileRaw = Array.isArray(row.profiles)
-      ? (row.profiles[0] as RawProfile | undefined)
-      : (row.profiles as RawProfile | undefined);
-    if (!profileRaw) continue;
-
-    const contentType = (profileRaw.content_type ?? 'photography') as ContentType;
-    const rawEntries = Array.isArray(row.content_entries) ? row.content_entries : [];
-    const entries: ContentEntryData[] = (rawEntries as Array<Record<string, unknown>>)
-      .sort((a, b) => ((a.order_index as number) ?? 0) - ((b.order_index as number) ?? 0))
-      .map(e => ({
-        title:        (e.title as string | undefined) ?? undefined,
-        caption:      (e.caption as string | undefined) ?? undefined,
-        media_url:    (e.media_url as string | undefined) ?? undefined,
-        focal_x:      (e.focal_x as number | undefined) ?? 50,
-        focal_y:      (e.focal_y as number | undefined) ?? 50,
-        aspect_ratio: (e.aspect_ratio as number | null | undefined) ?? null,
-      }));
-
-    items.push({
-      kind: 'creator',
-      creatorId: row.creator_id as string,
-      contentType,
-      submissionType: (row.type as 'regular' | 'fullSpread') ?? 'regular',
-      entries,
-      pageTitle: (row.page_title as string | undefined) ?? '',
-      contributor: { name: profileName(profileRaw), city: profileRaw.city ?? '' },
-      season,
-    });
+// ─── Concurrency ──────────────────────────────────────────────────────────────
+
+// Throws unless concurrency is a positive integer; anything else would start no workers.
+function checkConcurrency(concurrency: number, label = 'concurrency'): number {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`${label} must be a positive integer, got ${JSON.stringify(concurrency)}`);
   }
+  return concurrency;
+}
 
-  // Sort: photography → art → essay → poetry → music
-  return items.sort(
-    (a, b) =>
-      (CONTENT_TYPE_ORDER[a.contentType] ?? 99) - (CONTENT_TYPE_ORDER[b.contentType] ?? 99)
-  );
+// The value of a --concurrency=N flag; undefined when the flag is absent.
+export function parseConcurrency(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  if (!/^\d+$/.test(raw.trim())) throw new Error(`--concurrency must be a positive integer, got "${raw}"`);
+  return checkConcurrency(Number(raw), '--concurrency');
 }
 
-async function fetchCollabItems(
-  db: SupabaseClient,
-  curatorId: string,
-  periodId: string,
-  season: string
-): Promise<SelectionItemCollab[]> {
-  const { data: selections } = await db
-    .from('curator_collab_selections')
-    .select('collab_id, participation_mode, location')
-    .eq('curator_id', curatorId)
-    .eq('period_id', periodId);
-
-  if (!selections || selections.length === 0) return [];
-
-  const items: SelectionItemCollab[] = [];
-
-  for (const sel of selections as Array<{
-    collab_id: string;
-    participation_mode: string;
-    location: string | null;
-  }>) {
-    const { data: collab } = await db
-      .from('collabs')
-      .select('id, title, participation_mode, location, template_id, description')
-      .eq('id', sel.collab_id)
-      .maybeSingle();
-    if (!collab) continue;
-
-    // Fetch display_text from collab_template if available
-    let displayText = (collab as Record<string, unknown>).description as string ?? '';
-    const templateId = (collab as Record<string, unknown>).template_id as string | null;
-    if (templateId) {
-      const { data: tmpl } = await db
-        .from('collab_templates')
-        .select('display_text')
-        .eq('id', templateId)
-        .maybeSingle();
-      if (tmpl) displayText = (tmpl as Record<string, unknown>).display_text as string ?? displayText;
-    }
+// ─── Modes ────────────────────────────────────────────────────────────────────
 
-    // Fetch submissions for this collab
-    const { data: submissions } = await db
-      .from('collab_submissions')
-      .select(`
-        id, title, caption, media_url, contributor_id,
-        profiles:contributor_id ( first_name, last_name, city )
-      `)
-      .eq('collab_id', sel.collab_id);
-
-    const entries: CollabEntryData[] = ((submissions ?? []) as Array<Record<string, unknown>>).map(sub => {
-      const pRaw = Array.isArray(sub.profiles)
-        ? (sub.profiles[0] as RawProfile | undefined)
-        : (sub.profiles as RawProfile | undefined);
-      return {
-        title:     (sub.title as string | undefined) ?? undefined,
-        caption:   (sub.caption as string | undefined) ?? undefined,
-        media_url: (sub.media_url as string | undefined) ?? undefined,
-        contributor: pRaw
-          ? { name: profileName(pRaw), city: pRaw.city ?? '' }
-          : { name: 'Contributor', city: '' },
-      };
-    });
+// The value of a --<flag>=<mode> flag; undefined when the flag is absent. A mistyped mode
+// throws rather than falling through to the lenient one.
+function parseMode<T extends string>(flag: string, raw: string | undefined, modes: readonly T[]): T | undefined {
+  if (raw === undefined) return undefined;
+  const mode = modes.find(m => m === raw.trim());
+  if (!mode) throw new Error(`--${flag} must be one of ${modes.join(', ')}, got "${raw}"`);
+  return mode;
+}
 
-    const collabRecord = collab as Record<string, unknown>;
-    items.push({
-      kind: 'collab',
-      collabId: sel.collab_id,
-      collabTitle: (collabRecord.title as string | undefined) ?? '',
-      participationMode: (sel.participation_mode ?? 'community') as ParticipationMode,
-      location: sel.location ?? undefined,
-      city: sel.location ?? '',
-      displayText,
-      entries,
-      season,
-    });
-  }
+const PREFLIGHT_MODES: readonly PreflightMode[] = ['block', 'warn', 'skip'];
 
-  return items;
+export function parsePreflightMode(raw: string | undefined): PreflightMode | undefined {
+  return parseMode('preflight', raw, PREFLIGHT_MODES);
 }
 
-async function fetchCommunicationsItem(
-  db: SupabaseClient,
-  curatorId: string,
-  periodId: string,
-  season: string
-): Promise<SelectionItemCommunications | null> {
-  const { data: commSel } = await db
-    .from('curator_communication_selections')
-    .select('include_communications')
-    .eq('curator_id', curatorId)
-    .eq('period_id', periodId)
-    .maybeSingle();
-
-  if (!(commSel as Record<string, unknown> | null)?.include_communications) return null;
-
-  const { data: comms } = await db
-    .from('communications')
-    .select(`
-      id, subject, content, status, created_at,
-      sender:sender_id ( first_name, last_name, city ),
-      recipient:recipient_id ( first_name, last_name )
-    `)
-    .eq('recipient_id', curatorId)
-    .eq('period_id', periodId)
-    .eq('status', 'submitted')
-    .order('created_at', { ascending: false })
-    .limit(4);
-
-  const messages: CommunicationMessage[] = ((comms ?? []) as Array<Record<string, unknown>>).map(c => {
-    const senderRaw = Array.isArray(c.sender)
-      ? (c.sender[0] as RawProfile | undefined)
-      : (c.sender as RawProfile | undefined);
-    const recipientRaw = Array.isArray(c.recipient)
-      ? (c.recipient[0] as RawProfile | undefined)
-      : (c.recipient as RawProfile | undefined);
-
-    const createdAt = c.created_at as string | undefined;
-    const date = createdAt
-      ? new Date(createdAt).toLocaleDateString('en-US', { day: '2-digit', month: 'short', year: 'numeric' })
-      : '';
-
-    return {
-      from: senderRaw
-        ? { name: profileName(senderRaw), city: senderRaw.city ?? '' }
-        : { name: 'Contributor', city: '' },
-      to: recipientRaw
-        ? { name: profileName(recipientRaw) }
-        : { name: 'Curator' },
-      date,
-      subject: (c.subject as string | undefined) ?? undefined,
-      body:    (c.content as string | undefined) ?? '',
-    };
-  });
+const RENDER_FAILURE_MODES: readonly RenderFailureMode[] = ['fail', 'warn'];
 
-  if (messages.length === 0) return null;
-  return { kind: 'communications', messages, season };
+export function parseRenderFailureMode(raw: string | undefined): RenderFailureMode | undefined {
+  return parseMode('render-failure', raw, RENDER_FAILURE_MODES);
 }
 
-async function fetchCampaignItems(
-  db: SupabaseClient,
-  curatorId: string,
-  periodId: string
-): Promise<SelectionItemCampaign[]> {
-  const { data: selections } = await db
-    .from('curator_campaign_selections')
-    .select('campaign_id')
-    .eq('curator_id', curatorId)
-    .eq('period_id', periodId);
-
-  const campaignIds = (selections ?? []).map((s: { campaign_id: string }) => s.campaign_id);
-  if (campaignIds.length === 0) return [];
-
-  const { data: campaigns } = await db
-    .from('campaigns')
-    .select('id, name, bio, discount, avatar_url')
-    .in('id', campaignIds);
-
-  return ((campaigns ?? []) as Array<Record<string, unknown>>).map(c => ({
-    kind: 'campaign' as const,
-    campaignId:   c.id as string,
-    campaignName: (c.name as string | undefined) ?? '',
-    tagline:      (c.bio as string | undefined) ?? '',
-    discount:     typeof c.discount === 'number' ? c.discount : 2,
-    avatar_url:   (c.avatar_url as string | undefined) ?? undefined,
-  }));
+// ─── Page Pool ────────────────────────────────────────────────────────────────
+// A fixed set of browser pages shared by `concurrency` workers. Each worker owns one
+// page for the whole run and pulls the next unrendered slot, so at most
+// `concurrency` pages are ever open. Results are stored by slot index, which keeps
+// final assembly in page order regardless of completion order.
+
+async function renderWithPagePool<T>(
+  count: number,
+  concurrency: number,
+  browser: PuppeteerBrowser,
+  render: (index: number, page: PuppeteerPage) => Promise<T>
+): Promise<T[]> {
+  const results = new Array<T>(count);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    const page = await browser.newPage();
+    try {
+      while (next < count) {
+        const index = next++;
+        results[index] = await render(index, page);
+      }
+    } finally {
+      await page.close();
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(concurrency, count));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
 }
 
-// ─── Content Ordering (interspersing + even-page spread alignment) ─────────────
-// Reorders content items ONLY — it never changes which template an item gets.
-// Goals, in strict priority: (1) every two-page spread starts on an even page so
-// it reads across the fold; (2) spreads are separated by single-page "mortar"
-// where possible; (3) content types are dispersed rather than clumped.
-
-type OrderableItem = { item: SelectionItem; pageCount: number; typeKey: string };
-
-// The dispersion type for an item (used to space same-type items apart).
-function dispersalTypeKey(item: SelectionItem): string {
-  switch (item.kind) {
-    case 'creator':        return item.contentType;   // photography|art|essay|poetry|music
-    case 'collab':         return 'collab';
-    case 'communications': return 'communication';
-    case 'campaign':       return 'campaign';
+// ─── PDF Assembly ─────────────────────────────────────────────────────────────
+
+async function appendRasterPages(pdfDoc: PDFDocument, buffers: Buffer[]): Promise<void> {
+  for (const buf of buffers) {
+    const pngImage = await pdfDoc.embedPng(buf);
+    const pdfPage = pdfDoc.addPage([pngImage.width / RASTER_SCALE, pngImage.height / RASTER_SCALE]);
+    pdfPage.drawImage(pngImage, {
+      x: 0, y: 0,
+      width: pdfPage.getWidth(), height: pdfPage.getHeight(),
+    });
   }
 }
 
-// Deterministic round-robin interleave by type so same-type items are spaced
-// apart. Largest type groups are drawn first each round so they don't bunch up
-// at the end. This is an even/varied distribution — not randomness.
-function interleaveByType(items: OrderableItem[]): OrderableItem[] {
-  const buckets = new Map<string, OrderableItem[]>();
-  for (const it of items) {
-    const arr = buckets.get(it.typeKey);
-    if (arr) arr.push(it);
-    else buckets.set(it.typeKey, [it]);
+async function appendVectorPages(pdfDoc: PDFDocument, pdfBuf: Buffer, isSpread: boolean): Promise<void> {
+  const source = await PDFDocument.load(pdfBuf);
+  if (!isSpread) {
+    const [copied] = await pdfDoc.copyPages(source, [0]);
+    pdfDoc.addPage(copied);
+    return;
   }
-  const keys = [...buckets.keys()].sort((a, b) => buckets.get(b)!.length - buckets.get(a)!.length);
-  const out: OrderableItem[] = [];
-  let remaining = items.length;
-  while (remaining > 0) {
-    for (const k of keys) {
-      const arr = buckets.get(k)!;
-      if (arr.length) { out.push(arr.shift()!); remaining--; }
-    }
+
+  // Embed each half of the spread as a clipped form XObject — the content stream
+  // is reused as-is, so nothing is rasterised by the split.
+  const spreadPage = source.getPage(0);
+  const { width, height } = spreadPage.getSize();
+  const half = width / 2;
+  for (const left of [0, half]) {
+    const embedded = await pdfDoc.embedPage(spreadPage, { left, bottom: 0, right: left + half, top: height });
+    pdfDoc.addPage([half, height]).drawPage(embedded, { x: 0, y: 0 });
   }
-  return out;
 }
 
-// Order content items for a varied, spread-aligned flow. Content starts on the
-// even page 4, so alignment depends only on how many single pages precede each
-// spread — an EVEN number keeps the spread even-aligned. Singles are therefore
-// placed as even-sized pairs of "mortar": a pair both separates two spreads AND
-// preserves alignment (a lone single would flip parity and misalign the next
-// spread). Returns a pure reordering — no blank fillers (those are a last-resort
-// safety net applied during page numbering).
-function orderContentForFlow(items: SelectionItem[]): SelectionItem[] {
-  const orderable: OrderableItem[] = items.map(item => ({
-    item,
-    pageCount: selectTemplate(item, 0).pageCount,
-    typeKey: dispersalTypeKey(item),
-  }));
-
-  const spreads = interleaveByType(orderable.filter(o => o.pageCount === 2));
-  const singles = interleaveByType(orderable.filter(o => o.pageCount !== 2));
-  const S = spreads.length;
-
-  // No spreads → nothing to align; emit singles in dispersed order.
-  if (S === 0) return singles.map(o => o.item);
-
-  // Distribute single pages as even-sized pairs into the gaps before each spread
-  // (gap g precedes spreads[g]) plus a tail gap after the last spread. Gaps
-  // before spreads must hold an even count to preserve alignment; the tail may
-  // hold the single leftover. Pairs are spaced EVENLY through the sequence (not
-  // front- or back-loaded) so separation and type variety are distributed rather
-  // than clumped.
-  const pairs = Math.floor(singles.length / 2);
-  const gapPairs = new Array<number>(S).fill(0);   // pairs placed before spreads[g]
-  let tailPairs = 0;
-  const interSlots = S - 1;                         // gaps between consecutive spreads
-  if (interSlots === 0) {
-    // Single spread: split the mortar before/after so singles don't clump on one side.
-    gapPairs[0] = Math.floor(pairs / 2);
-    tailPairs   = pairs - gapPairs[0];
-  } else {
-    // Every inter-spread gap gets an equal base of pairs (separating all spreads
-    // when supply allows); the remaining pairs land on evenly-spaced gaps, which
-    // divides the spreads into roughly equal runs.
-    const base = Math.floor(pairs / interSlots);
-    for (let g = 1; g < S; g++) gapPairs[g] = base;
-    const rem = pairs - base * interSlots;          // 0..interSlots-1 leftover pairs
-    for (let i = 1; i <= rem; i++) {
-      let g = Math.round((i * S) / (rem + 1));
-      if (g < 1) g = 1;
-      if (g > S - 1) g = S - 1;
-      gapPairs[g] += 1;
-    }
-  }
+// ─── Render Cache ─────────────────────────────────────────────────────────────
+// Slots whose inputs are unchanged since a previous run are read back from disk (see
+// ./renderCache); their preflight layout checks are cached the same way.
 
-  const ordered: SelectionItem[] = [];
-  let si = 0;
-  for (let g = 0; g < S; g++) {
-    for (let p = 0; p < gapPairs[g]; p++) {
-      ordered.push(singles[si++].item);
-      ordered.push(singles[si++].item);
-    }
-    ordered.push(spreads[g].item);
-  }
-  for (let p = 0; p < tailPairs; p++) {
-    ordered.push(singles[si++].item);
-    ordered.push(singles[si++].item);
-  }
-  while (si < singles.length) ordered.push(singles[si++].item);  // leftover odd single
-  return ordered;
+interface RenderCache {
+  dir: string;
+  mediaChecksums: Map<string, string | null>;
 }
 
-// ─── Main Generator ───────────────────────────────────────────────────────────
+type RenderedOutput =
+  | { kind: 'raster'; buffers: Buffer[] }
+  | { kind: 'vector'; pdf: Buffer };
 
-export async function generateMagazine(curatorId: string, periodId: string): Promise<string> {
-  const db = makeClient();
+function readRendered(cache: RenderCache, key: string, slot: PlannedPage, output: OutputMode): RenderedOutput | null {
+  if (output === 'raster') {
+    const buffers = readCacheEntry(cache.dir, key, slot.isSpread ? 2 : 1, 'png');
+    return buffers && { kind: 'raster', buffers };
+  }
+  const pdf = readCacheEntry(cache.dir, key, 1, 'pdf');
+  return pdf && { kind: 'vector', pdf: pdf[0] };
+}
 
-  console.log('[generator] Fetching period and curator...');
-  const [period, curator] = await Promise.all([
-    fetchPeriod(db, periodId),
-    fetchCuratorProfile(db, curatorId),
-  ]);
-  const season = period.season;
-
-  console.log('[generator] Fetching selections...');
-  const [creatorItems, collabItems, commsItem, campaignItems] = await Promise.all([
-    fetchCreatorItems(db, curatorId, periodId, season),
-    fetchCollabItems(db, curatorId, periodId, season),
-    fetchCommunicationsItem(db, curatorId, periodId, season),
-    fetchCampaignItems(db, curatorId, periodId),
+function writeRendered(cache: RenderCache, key: string, rendered: RenderedOutput): void {
+  if (rendered.kind === 'raster') writeCacheEntry(cache.dir, key, 'png', rendered.buffers);
+  else writeCacheEntry(cache.dir, key, 'pdf', [rendered.pdf]);
+}
+
+// ─── Preflight Pass ───────────────────────────────────────────────────────────
+// Lays out every assignment once (no PDF) so preflight can measure frames and text,
+// while media URLs are probed from Node in parallel.
+
+async function preflightEdition(
+  slots: PlannedPage[],
+  browser: PuppeteerBrowser,
+  bundle: TemplateBundle,
+  concurrency: number,
+  thresholds: PreflightThresholds,
+  cache: RenderCache | null
+): Promise<PreflightReport> {
+  const assignments = slots as TemplateAssignment[];
+  const variant = `preflight:${thresholds.minDpi}/${thresholds.targetDpi}`;
+  const [mediaIssues, layoutIssues] = await Promise.all([
+    checkMedia(assignments),
+    renderWithPagePool(slots.length, concurrency, browser, async (i, page): Promise<PreflightIssue[]> => {
+      const a = assignments[i];
+      const key = cache && slotCacheKey(slots[i], bundle, variant, cache.mediaChecksums);
+      const cached = key && readCacheEntry(cache.dir, key, 1, 'json');
+      if (cached) return JSON.parse(cached[0].toString('utf-8')) as PreflightIssue[];
+      try {
+        await loadTemplateIntoPage(page, slots[i], 1, bundle);
+        const issues = await inspectLoadedPage(page, a, AW, thresholds);
+        if (key) writeCacheEntry(cache.dir, key, 'json', [Buffer.from(JSON.stringify(issues))]);
+        return issues;
+      } catch (err) {
+        return [{
+          severity: 'error', check: 'media', page: (a.data as { page?: number }).page ?? 0,
+          templateName: a.templateName,
+          message: `page failed to load: ${err instanceof Error ? err.message : String(err)}`,
+        }];
+      }
+    }),
   ]);
+  return buildPreflightReport(assignments.length, [...mediaIssues, ...layoutIssues.flat()]);
+}
 
-  // ── Assemble selection list, then order for varied, spread-aligned flow ─────
-  const selectionItems: SelectionItem[] = [
-    ...creatorItems,
-    ...collabItems,
-    ...(commsItem ? [commsItem] : []),
-    ...campaignItems,
-  ];
-  const orderedItems = orderContentForFlow(selectionItems);
-
-  // ── Assign page numbers ────────────────────────────────────────────────────
-  // Page 1 = Cover, Page 2 = Blank, Page 3 = FrontMatter, then content, last =
-  // Colophon. Content starts on page 4 (even). Every two-page spread must start
-  // on an even page; orderContentForFlow guarantees this by construction. The
-  // odd-page check below is a last-resort safety net (rule 4): if a spread would
-  // still land on an odd page with no single left to bump it, insert a blank
-  // filler page. With the ordering above it should never trigger (it warns if
-  // it does). contentAssignments holds real content only (no blanks) so the
-  // FrontMatter TOC — built later from it — reflects the final page numbers.
-  type MiddlePage = { templateName: string; data: unknown; pageCount: number };
-  let cursor = 4; // content starts at page 4 (cover=1, blank=2, frontmatter=3)
-  const contentAssignments: TemplateAssignment[] = [];
-  const middlePages: MiddlePage[] = [];
-  for (const item of orderedItems) {
-    if (selectTemplate(item, 0).pageCount === 2 && cursor % 2 === 1) {
-      console.warn(`[generator] alignment fallback: blank filler inserted before spread at page ${cursor}`);
-      middlePages.push({ templateName: 'BlankPage', data: { season }, pageCount: 1 });
-      cursor += 1;
-    }
-    const assignment = selectTemplate(item, cursor);
-    contentAssignments.push(assignment);
-    middlePages.push({ templateName: assignment.templateName, data: assignment.data, pageCount: assignment.pageCount });
-    cursor += assignment.pageCount;
-  }
+// ─── Render Timing Report ─────────────────────────────────────────────────────
 
-  const colophonPage = cursor;
-
-  // ── Build Cover ────────────────────────────────────────────────────────────
-  const coverData: CoverData = { page: 1, season, volume: period.volume ?? 'I', issue: period.issue ?? 1 };
-
-  // ── Build FrontMatter TOC (now that all page numbers are known) ────────────
-  function normalizeContentType(raw: string): string {
-    const map: Record<string, string> = {
-      photography: 'Photography',
-      art: 'Art',
-      essay: 'Essay',
-      writing: 'Essay',
-      poetry: 'Poetry',
-      music: 'Music',
-    };
-    return map[raw?.toLowerCase()] ?? raw;
-  }
+interface SlotTiming { templateName: string; pageCount: number; ms: number; cached: boolean }
 
-  const toc: TocEntry[] = contentAssignments
-    .filter(a => a.data && 'contributor' in a.data && 'page_title' in a.data)
-    .map(a => {
-      const d = a.data as { contributor: { name: string }; page_title: string; type: string; page: number };
-      return { page: d.page, contributor: d.contributor.name, type: normalizeContentType(d.type), title: d.page_title };
-    });
+function logRenderTimings(timings: SlotTiming[], concurrency: number, wallMs: number): void {
+  let page = 1;
+  console.log('[generator] Render timings:');
+  for (const t of timings) {
+    const pages = t.pageCount === 2 ? `${page}–${page + 1}` : `${page}`;
+    console.log(`[generator]   p.${pages.padEnd(7)} ${t.templateName.padEnd(22)} ${String(t.ms).padStart(6)}ms${t.cached ? ' (cached)' : ''}`);
+    page += t.pageCount;
+  }
+  const total = timings.reduce((sum, t) => sum + t.ms, 0);
+  const slowest = timings.reduce((a, b) => (b.ms > a.ms ? b : a), timings[0]);
+  const cached = timings.filter(t => t.cached).length;
+  console.log(
+    `[generator]   ${timings.length} slots (${cached} from cache) · ${total}ms total render time · ` +
+    `${wallMs}ms wall clock at concurrency ${concurrency} · slowest ${slowest?.templateName} (${slowest?.ms}ms)`
+  );
+}
 
-  const frontMatterData: FrontMatterData = {
-    page: 3, curator, season, toc,
-  };
+// ─── Main Generator ───────────────────────────────────────────────────────────
 
-  // ── Build Colophon ─────────────────────────────────────────────────────────
-  const contributors = creatorItems.map(i => i.contributor);
-  const colophonData: ColophonData = {
-    page: colophonPage, season,
-    contributors,
-    printer: 'Magcloud',
-    edition_number: 1,
-    edition_total: 1,
-  };
+export type OutputMode = 'vector' | 'raster';
+// block: preflight errors stop generation before rendering · warn: report only · skip
+export type PreflightMode = 'block' | 'warn' | 'skip';
+// A slot that still reports errors after its retries (see ./renderErrors) — fail: stops
+// generation and nothing is saved · warn: is printed as drawn and listed in the result.
+// A slot that could not be drawn at all fails generation either way.
+export type RenderFailureMode = 'fail' | 'warn';
+
+export interface GenerateOptions extends AssembleOptions {
+  // 'vector' (default) prints each page with Chromium's PDF backend; 'raster'
+  // embeds 4× PNG screenshots and exists for debugging.
+  output?: OutputMode;
+  // Browser pages rendering in parallel (default DEFAULT_RENDER_CONCURRENCY).
+  concurrency?: number;
+  // Directory the PDF is written to (default /tmp).
+  outputDir?: string;
+  // Also write an imposed printer-spread PDF next to the reader PDF.
+  impose?: boolean;
+  // Default 'block'. The report is written next to the PDF as -preflight.json.
+  preflight?: PreflightMode;
+  preflightThresholds?: PreflightThresholds;
+  // Default 'fail', after renderRetries further attempts per slot (default DEFAULT_RENDER_RETRIES).
+  onRenderFailure?: RenderFailureMode;
+  renderRetries?: number;
+  // Rendered slots are cached here and reused while their inputs are unchanged
+  // (default DEFAULT_RENDER_CACHE_DIR); null renders every slot afresh.
+  renderCacheDir?: string | null;
+  // Called once the page count is known and again as each template slot renders.
+  onProgress?: (progress: GenerationProgress) => void;
+}
 
-  // ── Full page sequence ─────────────────────────────────────────────────────
-  type PageSpec = { templateName: string; data: unknown; pageCount: number };
-  const pageSequence: PageSpec[] = [
-    { templateName: 'CoverA',      data: coverData,       pageCount: 1 },
-    { templateName: 'BlankPage',   data: { season },      pageCount: 1 },
-    { templateName: 'FrontMatter', data: frontMatterData, pageCount: 1 },
-    ...middlePages,
-    { templateName: 'ColophonPage', data: colophonData, pageCount: 1 },
-  ];
+export interface GenerationProgress {
+  pagesRendered: number;
+  pagesTotal: number;
+}
 
-  console.log(`[generator] Page sequence: ${pageSequence.length} template slots, ${colophonPage} total pages`);
+export interface GenerationResult {
+  outputPath: string;
+  // The edition plan that was rendered, as written by a dry run
+  planPath: string;
+  pageCount: number;
+  // Blank filler pages added before the colophon to reach pageMultiple
+  paddingPages: number;
+  imposedPath?: string;
+  preflight: PreflightReport | null;
+  preflightPath?: string;
+  // Slots printed despite render errors (onRenderFailure: 'warn')
+  failedSlots: FailedSlot[];
+}
 
-  // ── Launch Puppeteer ───────────────────────────────────────────────────────
-  console.log('[generator] Launching Puppeteer...');
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: ['--no-sandbox', '--disable-setuid-sandbox'],
-  });
+function editionPath(outputDir: string | undefined, curatorId: string, periodId: string): string {
+  return join(outputDir ?? '/tmp', `magazine-${curatorId}-${periodId}.pdf`);
+}
 
-  const pdfDoc = await PDFDocument.create();
+function writePlan(plan: EditionPlan, pdfPath: string): { exported: PlanExport; planPath: string } {
+  const exported = exportPlan(plan);
+  const planPath = pdfPath.replace(/\.pdf$/, '-plan.json');
+  writeFileSync(planPath, JSON.stringify(exported, null, 2) + '\n');
+  return { exported, planPath };
+}
 
+// Dry run: fetches, orders and numbers the edition exactly as generateMagazine would,
+// then writes the plan as JSON instead of rendering anything. It still starts Chromium:
+// long text is measured there to know how many pages it runs to.
+export async function planMagazine(
+  curatorId: string,
+  periodId: string,
+  options: Pick<GenerateOptions, 'outputDir' | 'pageMultiple'> = {}
+): Promise<{ plan: PlanExport; planPath: string }> {
+  const browser = await launchBrowser();
+  let plan: EditionPlan;
   try {
-    for (let i = 0; i < pageSequence.length; i++) {
-      const spec = pageSequence[i];
-      console.log(`[generator] Rendering [${i + 1}/${pageSequence.length}]: ${spec.templateName}`);
+    ({ plan } = await assembleMeasured(makeClient(), browser, curatorId, periodId, options));
+  } finally {
+    await browser.close();
+  }
+  const { exported, planPath } = writePlan(plan, editionPath(options.outputDir, curatorId, periodId));
+  console.log(`[generator] Plan saved: ${planPath}`);
+  return { plan: exported, planPath };
+}
 
-      const buffers = await renderPageToBuffers(
-        spec.templateName, spec.data, spec.pageCount, browser
+export async function generateMagazine(
+  curatorId: string,
+  periodId: string,
+  options: GenerateOptions = {}
+): Promise<GenerationResult> {
+  const output = options.output ?? 'vector';
+  const concurrency = checkConcurrency(options.concurrency ?? DEFAULT_RENDER_CONCURRENCY);
+
+  // ── Launch Puppeteer ───────────────────────────────────────────────────────
+  // Before assembly, which measures long text in it.
+  console.log(`[generator] Launching Puppeteer (${output} output, ${concurrency} pages in parallel)...`);
+  const browser = await launchBrowser();
+  const db = makeClient();
+  let assembled: AssembledEdition;
+  try {
+    assembled = await assembleMeasured(db, browser, curatorId, periodId, options);
+  } catch (err) {
+    await browser.close();
+    throw err;
+  }
+  const { plan, bundle } = assembled;
+  const pageSequence = plan.pages;
+  const { pageCount: pagesTotal, paddingPages } = plan;
+
+  const outputPath = editionPath(options.outputDir, curatorId, periodId);
+  const { planPath } = writePlan(plan, outputPath);
+  const preflightMode = options.preflight ?? 'block';
+  const cacheDir = options.renderCacheDir === undefined ? DEFAULT_RENDER_CACHE_DIR : options.renderCacheDir;
+  // Media checksums never throw: an unreachable file just leaves its slots uncached.
+  if (cacheDir) console.log(`[generator] Render cache: ${cacheDir}`);
+  const cache: RenderCache | null = cacheDir
+    ? { dir: cacheDir, mediaChecksums: await fetchMediaChecksums(pageSequence) }
+    : null;
+
+  let renderStarted = Date.now();
+
+  type RenderedSlot = RenderedOutput & { ms: number; cached: boolean };
+
+  let rendered: RenderedSlot[];
+  const failedSlots: FailedSlot[] = [];
+  const retries = options.renderRetries ?? DEFAULT_RENDER_RETRIES;
+  let preflight: PreflightReport | null = null;
+  let preflightPath: string | undefined;
+  let pagesRendered = 0;
+  try {
+    // ── Preflight ────────────────────────────────────────────────────────────
+    if (preflightMode !== 'skip') {
+      console.log('[generator] Preflight...');
+      preflight = await preflightEdition(
+        pageSequence.filter(s => s.templateName !== 'BlankPage'), browser, bundle, concurrency,
+        options.preflightThresholds ?? DEFAULT_PREFLIGHT_THRESHOLDS, cache
       );
+      preflightPath = outputPath.replace(/\.pdf$/, '-preflight.json');
+      writeFileSync(preflightPath, JSON.stringify(preflight, null, 2) + '\n');
+      for (const line of formatPreflightReport(preflight)) console.log(`[generator] ${line}`);
+      if (preflightMode === 'block' && preflight.errors > 0) {
+        throw new PreflightError(
+          `Preflight found ${preflight.errors} error(s); nothing rendered. Report: ${preflightPath}`,
+          preflight
+        );
+      }
+    }
 
-      for (const buf of buffers) {
-        const pngImage = await pdfDoc.embedPng(buf);
-        const pdfPage = pdfDoc.addPage([pngImage.width / 4, pngImage.height / 4]);
-        pdfPage.drawImage(pngImage, {
-          x: 0, y: 0,
-          width: pdfPage.getWidth(), height: pdfPage.getHeight(),
-        });
+    renderStarted = Date.now();
+    options.onProgress?.({ pagesRendered, pagesTotal });
+    let done = 0;
+    const variant = output === 'raster' ? `raster@${RASTER_SCALE}` : 'vector';
+    const slots = await renderWithPagePool(pageSequence.length, concurrency, browser, async (i, page): Promise<RenderedSlot | null> => {
+      const spec = pageSequence[i];
+      const started = Date.now();
+      const key = cache && slotCacheKey(spec, bundle, variant, cache.mediaChecksums);
+      let result = key ? readRendered(cache, key, spec, output) : null;
+      const cached = result !== null;
+      if (!result) {
+        // Failed renders are retried, and only clean ones are cached.
+        let problems: RenderProblem[] = [];
+        let attempts = 0;
+        while (attempts <= retries) {
+          attempts++;
+          ({ result, problems } = await captureRenderProblems(page, () => renderSlot(spec, page, bundle, output)));
+          if (result && problems.length === 0) break;
+          console.warn(`[generator] ${spec.templateName} p.${spec.firstPage}: attempt ${attempts} reported ${problems.length} problem(s)`);
+        }
+        if (problems.length > 0) {
+          failedSlots.push({
+            pages: Array.from({ length: spec.pageCount }, (_, n) => spec.firstPage + n),
+            templateName: spec.templateName, source: spec.source, attempts, problems,
+          });
+        } else if (key && result) {
+          writeRendered(cache, key, result);
+        }
+        if (!result) return null;
       }
+      const ms = Date.now() - started;
+      console.log(`[generator] ${cached ? 'Cached' : 'Rendered'} [${++done}/${pageSequence.length}]: ${spec.templateName} (${ms}ms)`);
+      pagesRendered += spec.pageCount;
+      options.onProgress?.({ pagesRendered, pagesTotal });
+      return { ...result, ms, cached };
+    });
+
+    // ── Render failures ──────────────────────────────────────────────────────
+    failedSlots.sort((a, b) => a.pages[0] - b.pages[0]);
+    for (const failure of failedSlots) console.error(`[generator] ${formatFailedSlot(failure)}`);
+    const undrawn = slots.some(slot => slot === null);
+    if (failedSlots.length > 0 && ((options.onRenderFailure ?? 'fail') === 'fail' || undrawn)) {
+      throw new RenderError(
+        `${failedSlots.length} slot(s) failed to render; nothing saved. First: ${formatFailedSlot(failedSlots[0])}`,
+        failedSlots
+      );
     }
+    rendered = slots as RenderedSlot[];
   } finally {
     await browser.close();
   }
 
+  // ── Assemble in page order ─────────────────────────────────────────────────
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageSequence.length; i++) {
+    const slot = rendered[i];
+    if (slot.kind === 'raster') {
+      await appendRasterPages(pdfDoc, slot.buffers);
+    } else {
+      await appendVectorPages(pdfDoc, slot.pdf, pageSequence[i].isSpread);
+    }
+  }
+
+  logRenderTimings(pageSequence.map((spec, i) => ({
+    templateName: spec.templateName, pageCount: spec.pageCount, ms: rendered[i].ms, cached: rendered[i].cached,
+  })), concurrency, Date.now() - renderStarted);
+  if (cacheDir) {
+    const pruned = pruneRenderCache(cacheDir);
+    if (pruned > 0) console.log(`[generator] Render cache: pruned ${pruned} stale file(s)`);
+  }
+
+  // ── Metadata, bookmarks and page labels ───────────────────────────────────
+  addNavigation(pdfDoc, plan);
+
   // ── Save PDF ───────────────────────────────────────────────────────────────
   const pdfBytes = await pdfDoc.save();
-  const outputPath = `/tmp/magazine-${curatorId}-${periodId}.pdf`;
   writeFileSync(outputPath, pdfBytes);
 
   console.log(`[generator] PDF saved: ${outputPath}`);
-  return outputPath;
+
+  let imposedPath: string | undefined;
+  if (options.impose) {
+    const imposed = await imposeSaddleStitch(pdfDoc);
+    addImposedInfo(imposed, plan);
+    imposedPath = outputPath.replace(/\.pdf$/, '-imposed.pdf');
+    writeFileSync(imposedPath, await imposed.save());
+    console.log(`[generator] Imposed printer spreads saved: ${imposedPath}`);
+  }
+
+  // Only an edition that printed fixes its collab entries for reprints
+  await recordCollabEntries(db, curatorId, periodId, assembled.collabPicks);
+
+  return {
+    outputPath, planPath, pageCount: pdfDoc.getPageCount(), paddingPages, imposedPath, preflight, preflightPath,
+    failedSlots,
+  };
 }
@@ -0,0 +1,57 @@
+// src/magazine/core/imposition.ts — Saddle-stitch page padding and printer-spread imposition.
+// A saddle-stitched issue is folded sheets nested inside each other, so its page count must
+// be a multiple of four, and each printed sheet side carries two non-consecutive pages
+// (for 16 pages: 16|1, 2|15, 14|3 …). The generator emits reader's spreads; this module
+// re-pairs them into printer's spreads for printers that want the file pre-imposed.
+
+import { PDFDocument } from 'pdf-lib';
+
+export const SADDLE_STITCH_MULTIPLE = 4;
+
+// Canvas geometry from primitives.jsx: 768px trim + 11px bleed each side = 790px wide.
+// Ratios rather than absolute sizes, so vector (pt) and raster (px) PDFs both impose.
+const CANVAS_WIDTH = 790;
+const BLEED = 11;
+
+// Filler pages needed to bring pageCount up to the next multiple (0 if already there).
+export function paddingForMultiple(pageCount: number, multiple: number): number {
+  if (multiple <= 1) return 0;
+  return (multiple - (pageCount % multiple)) % multiple;
+}
+
+// Zero-based [left, right] reader page indices for each printer's spread, in print order:
+// sheet fronts and backs alternate, outermost sheet first.
+export function printerSpreadOrder(pageCount: number): Array<[number, number]> {
+  if (pageCount % SADDLE_STITCH_MULTIPLE !== 0) {
+    throw new Error(`Cannot impose ${pageCount} pages: saddle stitch needs a multiple of ${SADDLE_STITCH_MULTIPLE}`);
+  }
+  const spreads: Array<[number, number]> = [];
+  for (let k = 0; k < pageCount / 2; k++) {
+    const outer = pageCount - 1 - k;
+    spreads.push(k % 2 === 0 ? [outer, k] : [k, outer]);
+  }
+  return spreads;
+}
+
+// Builds a printer-spread PDF from the reader PDF. The two pages of a spread meet at the
+// fold, so the spine-side bleed of each is clipped away; the outer bleed is kept. Pages
+// are embedded as form XObjects, so vector content stays vector.
+export async function imposeSaddleStitch(reader: PDFDocument): Promise<PDFDocument> {
+  const imposed = await PDFDocument.create();
+  const pages = reader.getPages();
+
+  for (const [leftIdx, rightIdx] of printerSpreadOrder(pages.length)) {
+    const leftPage = pages[leftIdx];
+    const rightPage = pages[rightIdx];
+    const { width, height } = leftPage.getSize();
+    const bleed = width * (BLEED / CANVAS_WIDTH);
+    const halfWidth = width - bleed;
+
+    const left = await imposed.embedPage(leftPage, { left: 0, bottom: 0, right: halfWidth, top: height });
+    const right = await imposed.embedPage(rightPage, { left: bleed, bottom: 0, right: width, top: height });
+    const sheet = imposed.addPage([halfWidth * 2, height]);
+    sheet.drawPage(left, { x: 0, y: 0 });
+    sheet.drawPage(right, { x: halfWidth, y: 0 });
+  }
+  return imposed;
+}
@@ -0,0 +1,156 @@
+// src/magazine/core/jobs.ts — Persistent magazine generation jobs (public.magazine_jobs).
+// The admin API enqueues and reads jobs; scripts/magazine-worker.ts claims and runs them
+// (see ./worker). Schema: scripts/migrations/001-magazine-jobs.sql. This module only
+// touches the database, so API routes can import it without pulling in Puppeteer.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { OutputMode } from './generator';
+
+export const MAGAZINE_BUCKET = 'magazines';
+// A rendering job that has not reported progress for this long is considered abandoned.
+export const STALE_JOB_MS = 10 * 60 * 1000;
+
+export type JobStatus = 'queued' | 'rendering' | 'assembled' | 'failed';
+
+export interface MagazineJob {
+  id: string;
+  curator_id: string;
+  period_id: string;
+  status: JobStatus;
+  output_mode: OutputMode;
+  pages_rendered: number;
+  pages_total: number | null;
+  page_count: number | null;
+  storage_path: string | null;
+  error: string | null;
+  requested_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+export class MagazineJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MagazineJobError';
+  }
+}
+
+export function isActiveJob(job: Pick<MagazineJob, 'status'>): boolean {
+  return job.status === 'queued' || job.status === 'rendering';
+}
+
+// Where a job's finished PDF is stored in the magazines bucket.
+export function jobStoragePath(job: Pick<MagazineJob, 'id' | 'curator_id' | 'period_id'>): string {
+  return `${job.period_id}/${job.curator_id}/${job.id}.pdf`;
+}
+
+// ─── Admin API ────────────────────────────────────────────────────────────────
+
+// Returns the curator's existing queued/rendering job for the period if there is one,
+// so repeated clicks do not stack up duplicate builds.
+export async function enqueueJob(
+  db: SupabaseClient,
+  curatorId: string,
+  periodId: string,
+  requestedBy: string,
+  outputMode: OutputMode = 'vector'
+): Promise<MagazineJob> {
+  const { data: existing, error: existingErr } = await db
+    .from('magazine_jobs')
+    .select('*')
+    .eq('curator_id', curatorId)
+    .eq('period_id', periodId)
+    .in('status', ['queued', 'rendering'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (existingErr) throw new MagazineJobError(`Failed to check existing jobs: ${existingErr.message}`);
+  if (existing) return existing as MagazineJob;
+
+  const { data, error } = await db
+    .from('magazine_jobs')
+    .insert({ curator_id: curatorId, period_id: periodId, requested_by: requestedBy, output_mode: outputMode })
+    .select('*')
+    .single();
+  if (error || !data) throw new MagazineJobError(`Failed to enqueue job: ${error?.message ?? 'no data'}`);
+  return data as MagazineJob;
+}
+
+export async function getJob(db: SupabaseClient, jobId: string): Promise<MagazineJob | null> {
+  const { data, error } = await db
+    .from('magazine_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+  if (error) throw new MagazineJobError(`Failed to load job ${jobId}: ${error.message}`);
+  return (data as MagazineJob | null) ?? null;
+}
+
+// The most recent job per curator for a period, keyed by curator id.
+export async function latestJobsForPeriod(
+  db: SupabaseClient,
+  periodId: string
+): Promise<Record<string, MagazineJob>> {
+  const { data, error } = await db
+    .from('magazine_jobs')
+    .select('*')
+    .eq('period_id', periodId)
+    .order('created_at', { ascending: false });
+  if (error) throw new MagazineJobError(`Failed to load jobs: ${error.message}`);
+
+  const latest: Record<string, MagazineJob> = {};
+  for (const job of (data ?? []) as MagazineJob[]) {
+    latest[job.curator_id] ??= job;
+  }
+  return latest;
+}
+
+// ─── Worker ───────────────────────────────────────────────────────────────────
+
+// Claims the oldest queued job (or an abandoned rendering job) for this worker. The
+// update is conditional on the row being unchanged since it was read, so two workers
+// racing for the same job cannot both win; the loser simply tries the next candidate.
+export async function claimNextJob(db: SupabaseClient): Promise<MagazineJob | null> {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+  const { data, error } = await db
+    .from('magazine_jobs')
+    .select('*')
+    .or(`status.eq.queued,and(status.eq.rendering,updated_at.lt.${staleBefore})`)
+    .order('created_at', { ascending: true })
+    .limit(5);
+  if (error) throw new MagazineJobError(`Failed to poll jobs: ${error.message}`);
+
+  for (const candidate of (data ?? []) as MagazineJob[]) {
+    const now = new Date().toISOString();
+    const { data: claimed, error: claimErr } = await db
+      .from('magazine_jobs')
+      .update({
+        status: 'rendering', pages_rendered: 0, error: null,
+        started_at: now, updated_at: now,
+      })
+      .eq('id', candidate.id)
+      .eq('status', candidate.status)
+      .eq('updated_at', candidate.updated_at)
+      .select('*')
+      .maybeSingle();
+    if (claimErr) throw new MagazineJobError(`Failed to claim job ${candidate.id}: ${claimErr.message}`);
+    if (claimed) return claimed as MagazineJob;
+  }
+  return null;
+}
+
+export async function updateJob(
+  db: SupabaseClient,
+  jobId: string,
+  fields: Partial<Pick<MagazineJob,
+    'status' | 'pages_rendered' | 'pages_total' | 'page_count' | 'storage_path' | 'error' | 'finished_at'>>
+): Promise<void> {
+  const { error } = await db
+    .from('magazine_jobs')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+  if (error) throw new MagazineJobError(`Failed to update job ${jobId}: ${error.message}`);
+}
@@ -0,0 +1,48 @@
+// src/magazine/core/pageHtml.ts — The self-contained HTML document for one template slot.
+// Shared by the PDF renderer and the admin preview, which loads the same documents into
+// iframes, so a previewed page is byte-for-byte the page Puppeteer prints.
+
+import { assetHeadHtml } from './assets';
+import { resolveComponentName, type TemplateBundle } from './templateBundle';
+
+// Canvas size in CSS pixels: 768 × 1032 trim plus 11px bleed on every side
+export const AW = 790;
+export const AH = 1054;
+
+// Templates that render as double-width spreads (1580 × 1054 CSS pixels)
+export const SPREAD_TEMPLATES = new Set([
+  'Spread', 'SpreadPanorama', 'Spread2', 'Spread4', 'SpreadMosaic', 'Spread6',
+  'TextSpread', 'CollabSpreadCommunity', 'CollabSpreadLocal', 'CollabSpreadPrivate',
+]);
+
+export function buildPageHtml(templateName: string, data: unknown, bundle: TemplateBundle): string {
+  const component = resolveComponentName(bundle, templateName);
+  const isSpread = SPREAD_TEMPLATES.has(templateName);
+  const pageW = isSpread ? AW * 2 : AW;
+  const serialized = JSON.stringify({ templateName, component, data });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  ${assetHeadHtml()}
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { background: #252119; width: ${pageW}px; height: ${AH}px; overflow: hidden; }
+  </style>
+</head>
+<body>
+  <div id="root"></div>
+  <script>window.__magazine_page__ = ${serialized};</script>
+  <script>${bundle.code}</script>
+  <script>
+    const { templateName: _name, component: _component, data: _data } = window.__magazine_page__;
+    const _Component = window[_component];
+    if (!_Component) throw new Error('Template not found on window: ' + _component);
+    ReactDOM.createRoot(document.getElementById('root')).render(
+      React.createElement(_Component, { data: _data, templateName: _name })
+    );
+  </script>
+</body>
+</html>`;
+}
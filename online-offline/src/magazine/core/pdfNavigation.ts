@@ -0,0 +1,130 @@
+// src/magazine/core/pdfNavigation.ts — Document metadata, a bookmark outline and page
+// labels for the reader PDF, all from the edition plan. Bookmarks follow print order:
+// cover, contents, each piece (titled as in the table of contents), collabs,
+// communications, campaigns and the colophon; filler and continuation pages get none.
+// Page labels match the printed folios, so "page 12" in a viewer is the page printed 12;
+// the two cover pages carry no folio and are labelled by name.
+
+import { PDFDocument, PDFHexString, PDFName, type PDFRef } from 'pdf-lib';
+
+import type { EditionPlan, PlannedPage } from './assembly';
+import type { CoverData, FrontMatterData, TocEntry } from './types';
+
+export interface OutlineEntry {
+  title: string;
+  // Zero-based index of the page the bookmark opens
+  pageIndex: number;
+}
+
+// Pages before the first folio, by name
+const UNNUMBERED_PAGES = ['Cover', 'Inside cover'];
+
+// ─── Metadata ─────────────────────────────────────────────────────────────────
+
+function coverOf(plan: EditionPlan): Partial<CoverData> {
+  return (plan.pages.find(p => p.source === 'cover')?.data ?? {}) as Partial<CoverData>;
+}
+
+export function editionTitle(plan: EditionPlan): string {
+  return `online//offline ${plan.season} — curated by ${plan.curator.name}`;
+}
+
+function setDocumentInfo(pdfDoc: PDFDocument, plan: EditionPlan): void {
+  const { volume = 'I', issue = 1 } = coverOf(plan);
+  pdfDoc.setTitle(editionTitle(plan), { showInWindowTitleBar: true });
+  pdfDoc.setAuthor(plan.curator.name);
+  pdfDoc.setSubject(`${plan.season} · Volume ${volume}, Issue ${issue}`);
+  pdfDoc.setKeywords(['online//offline', plan.season, plan.periodName, `Volume ${volume}`, `Issue ${issue}`]);
+  pdfDoc.setCreator('online//offline magazine generator');
+  pdfDoc.setLanguage('en');
+}
+
+// ─── Outline ──────────────────────────────────────────────────────────────────
+
+function tocTitle(entry: TocEntry): string {
+  return entry.title ? `${entry.title} — ${entry.contributor}` : entry.contributor;
+}
+
+function bookmarkTitle(page: PlannedPage, toc: Map<number, TocEntry>): string | null {
+  const data = page.data as { collab_title?: string; campaign_name?: string };
+  if (page.source.includes(':continued:')) return null;
+
+  switch (page.source.split(':')[0]) {
+    case 'cover':          return 'Cover';
+    case 'front-matter':   return 'Contents';
+    case 'creator': {
+      const entry = toc.get(page.firstPage);
+      return entry ? tocTitle(entry) : null;
+    }
+    case 'collab':         return data.collab_title || 'Collaboration';
+    case 'communications': return 'Communications';
+    case 'campaign':       return data.campaign_name || 'Campaign';
+    case 'colophon':       return 'Colophon';
+    default:               return null;
+  }
+}
+
+// The bookmarks for an edition, in page order
+export function outlineEntries(plan: EditionPlan): OutlineEntry[] {
+  const frontMatter = plan.pages.find(p => p.source === 'front-matter')?.data as FrontMatterData | undefined;
+  const toc = new Map((frontMatter?.toc ?? []).map(entry => [entry.page, entry]));
+  return plan.pages.flatMap(page => {
+    const title = bookmarkTitle(page, toc);
+    return title ? [{ title, pageIndex: page.firstPage - 1 }] : [];
+  });
+}
+
+// A flat outline: each item opens its page fitted to the window.
+function setOutline(pdfDoc: PDFDocument, entries: OutlineEntry[]): void {
+  if (entries.length === 0) return;
+  const { context } = pdfDoc;
+  const outlineRef = context.nextRef();
+  const itemRefs: PDFRef[] = entries.map(() => context.nextRef());
+
+  entries.forEach((entry, i) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: outlineRef,
+      Dest: [pdfDoc.getPage(entry.pageIndex).ref, PDFName.of('Fit')],
+    });
+    if (i > 0) item.set(PDFName.of('Prev'), itemRefs[i - 1]);
+    if (i < entries.length - 1) item.set(PDFName.of('Next'), itemRefs[i + 1]);
+    context.assign(itemRefs[i], item);
+  });
+  context.assign(outlineRef, context.obj({
+    Type: 'Outlines',
+    First: itemRefs[0],
+    Last: itemRefs[itemRefs.length - 1],
+    Count: entries.length,
+  }));
+
+  pdfDoc.catalog.set(PDFName.of('Outlines'), outlineRef);
+  pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+// ─── Page Labels ──────────────────────────────────────────────────────────────
+
+function setPageLabels(pdfDoc: PDFDocument): void {
+  const { context } = pdfDoc;
+  const nums = UNNUMBERED_PAGES.flatMap((label, i) => [i, context.obj({ P: PDFHexString.fromText(label) })]);
+  nums.push(UNNUMBERED_PAGES.length, context.obj({ S: 'D', St: UNNUMBERED_PAGES.length + 1 }));
+  pdfDoc.catalog.set(PDFName.of('PageLabels'), context.obj({ Nums: nums }));
+}
+
+// ─── Apply ────────────────────────────────────────────────────────────────────
+
+// Called on the assembled reader PDF, which has exactly plan.pageCount pages.
+export function addNavigation(pdfDoc: PDFDocument, plan: EditionPlan): void {
+  if (pdfDoc.getPageCount() !== plan.pageCount) {
+    throw new Error(`PDF has ${pdfDoc.getPageCount()} pages, the plan ${plan.pageCount}`);
+  }
+  setDocumentInfo(pdfDoc, plan);
+  setOutline(pdfDoc, outlineEntries(plan));
+  setPageLabels(pdfDoc);
+}
+
+// The imposed PDF keeps the metadata; its sheets have no reader pages to bookmark.
+export function addImposedInfo(pdfDoc: PDFDocument, plan: EditionPlan): void {
+  setDocumentInfo(pdfDoc, plan);
+  pdfDoc.setTitle(`${editionTitle(plan)} (printer spreads)`, { showInWindowTitleBar: true });
+}
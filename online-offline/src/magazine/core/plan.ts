@@ -0,0 +1,175 @@
+// src/magazine/core/plan.ts — The edition plan as JSON, and diffs between two plans.
+// The export is what a dry run writes: every slot's pages, template and subject, without
+// the template data itself, so it stays readable and diffs cleanly. Slots are matched
+// across plans by source (the creator, collab or campaign behind them), which lets a
+// diff say "moved from p.8 to p.10" rather than "p.8 changed".
+
+import type { EditionPlan, FillerReason, PlannedPage } from './assembly';
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+export interface PlanSlot {
+  pages: number[];
+  templateName: string;
+  source: string;
+  contributor?: string;
+  title?: string;
+  // Images, collab submissions or messages laid out on the slot
+  entryCount?: number;
+  filler?: FillerReason;
+}
+
+export interface PlanExport {
+  curatorId: string;
+  curatorName: string;
+  periodId: string;
+  periodName: string;
+  templateSet: string;
+  plannedAt: string;
+  pageCount: number;
+  paddingPages: number;
+  alignmentFillers: number;
+  slots: PlanSlot[];
+}
+
+function describeSlot(page: PlannedPage): PlanSlot {
+  const data = page.data as {
+    contributor?: { name: string };
+    page_title?: string;
+    collab_title?: string;
+    campaign_name?: string;
+    entries?: unknown[];
+    messages?: unknown[];
+  };
+  const slot: PlanSlot = {
+    pages: Array.from({ length: page.pageCount }, (_, i) => page.firstPage + i),
+    templateName: page.templateName,
+    source: page.source,
+  };
+  if (data.contributor) slot.contributor = data.contributor.name;
+  const title = data.page_title ?? data.collab_title ?? data.campaign_name;
+  if (title) slot.title = title;
+  const entries = data.entries ?? data.messages;
+  if (Array.isArray(entries)) slot.entryCount = entries.length;
+  if (page.filler) slot.filler = page.filler;
+  return slot;
+}
+
+export function exportPlan(plan: EditionPlan): PlanExport {
+  return {
+    curatorId: plan.curatorId,
+    curatorName: plan.curator.name,
+    periodId: plan.periodId,
+    periodName: plan.periodName,
+    templateSet: plan.templateSet,
+    plannedAt: new Date().toISOString(),
+    pageCount: plan.pageCount,
+    paddingPages: plan.paddingPages,
+    alignmentFillers: plan.pages.filter(p => p.filler === 'alignment').length,
+    slots: plan.pages.map(describeSlot),
+  };
+}
+
+// ─── Diff ─────────────────────────────────────────────────────────────────────
+
+export type PlanChange =
+  | { kind: 'added'; slot: PlanSlot }
+  | { kind: 'removed'; slot: PlanSlot }
+  | { kind: 'moved'; before: PlanSlot; after: PlanSlot }
+  | { kind: 'changed'; before: PlanSlot; after: PlanSlot };
+
+export interface PlanDiff {
+  pageCount: [number, number];
+  paddingPages: [number, number];
+  alignmentFillers: [number, number];
+  templateSet: [string, string];
+  changes: PlanChange[];
+}
+
+// Content slots keyed by source; fillers are counted, not matched.
+function slotsBySource(plan: PlanExport): Map<string, PlanSlot> {
+  return new Map(plan.slots.filter(s => !s.filler).map(s => [s.source, s]));
+}
+
+export function diffPlans(before: PlanExport, after: PlanExport): PlanDiff {
+  const beforeSlots = slotsBySource(before);
+  const afterSlots = slotsBySource(after);
+  const changes: PlanChange[] = [];
+
+  for (const [source, slot] of beforeSlots) {
+    if (!afterSlots.has(source)) changes.push({ kind: 'removed', slot });
+  }
+  for (const [source, slot] of afterSlots) {
+    const previous = beforeSlots.get(source);
+    if (!previous) {
+      changes.push({ kind: 'added', slot });
+      continue;
+    }
+    // A change of template or entries is reported over a move: it usually explains it.
+    if (previous.templateName !== slot.templateName || previous.entryCount !== slot.entryCount) {
+      changes.push({ kind: 'changed', before: previous, after: slot });
+    } else if (previous.pages[0] !== slot.pages[0]) {
+      changes.push({ kind: 'moved', before: previous, after: slot });
+    }
+  }
+
+  const firstPage = (c: PlanChange) => ('slot' in c ? c.slot : c.after).pages[0];
+  changes.sort((a, b) => firstPage(a) - firstPage(b));
+
+  return {
+    pageCount: [before.pageCount, after.pageCount],
+    paddingPages: [before.paddingPages, after.paddingPages],
+    alignmentFillers: [before.alignmentFillers, after.alignmentFillers],
+    templateSet: [before.templateSet, after.templateSet],
+    changes,
+  };
+}
+
+function pageLabel(slot: PlanSlot): string {
+  const [first] = slot.pages;
+  return slot.pages.length > 1 ? `p.${first}–${slot.pages[slot.pages.length - 1]}` : `p.${first}`;
+}
+
+function slotLabel(slot: PlanSlot): string {
+  const subject = [slot.contributor, slot.title && `"${slot.title}"`].filter(Boolean).join(' ');
+  return subject ? `${slot.templateName} ${subject}` : `${slot.templateName} (${slot.source})`;
+}
+
+function entriesLabel(slot: PlanSlot): string {
+  if (slot.entryCount === undefined) return '';
+  return `, ${slot.entryCount} ${slot.entryCount === 1 ? 'entry' : 'entries'}`;
+}
+
+export function formatPlanDiff(diff: PlanDiff): string[] {
+  const lines: string[] = [];
+  const totals: Array<[string, [number | string, number | string]]> = [
+    ['pages', diff.pageCount],
+    ['padding pages', diff.paddingPages],
+    ['alignment fillers', diff.alignmentFillers],
+    ['template set', diff.templateSet],
+  ];
+  for (const [label, [a, b]] of totals) {
+    if (a !== b) lines.push(`${label}: ${a} → ${b}`);
+  }
+
+  for (const change of diff.changes) {
+    switch (change.kind) {
+      case 'added':
+        lines.push(`+ ${pageLabel(change.slot)} ${slotLabel(change.slot)}${entriesLabel(change.slot)}`);
+        break;
+      case 'removed':
+        lines.push(`- ${pageLabel(change.slot)} ${slotLabel(change.slot)}${entriesLabel(change.slot)}`);
+        break;
+      case 'moved':
+        lines.push(`~ ${slotLabel(change.after)} moved ${pageLabel(change.before)} → ${pageLabel(change.after)}`);
+        break;
+      case 'changed':
+        lines.push(
+          `~ ${slotLabel(change.after)} ${pageLabel(change.before)} → ${pageLabel(change.after)}: ` +
+          `${change.before.templateName}${entriesLabel(change.before)} → ${change.after.templateName}${entriesLabel(change.after)}`
+        );
+        break;
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,305 @@
+// src/magazine/core/preflight.ts — Print preflight for an edition's template assignments.
+// Runs before anything is rendered to PDF. Media reachability is checked from Node; image
+// resolution, cropping and text overflow are measured in the browser on each page after
+// it has been laid out (the generator loads the page, inspectLoadedPage reads it back).
+// The result is a structured report; the generator decides whether errors block output.
+
+import type { ContentEntryData, ContentPageData, TemplateAssignment } from './types';
+
+// ─── Thresholds ───────────────────────────────────────────────────────────────
+
+// 768px trim = 8in, so the canvas is laid out at 96 CSS px per printed inch.
+const CSS_PX_PER_INCH = 96;
+const MEDIA_TIMEOUT_MS = 10_000;
+// Share of an image cropped away by its frame before a missing focal point matters.
+const FOCAL_CROP_THRESHOLD = 0.15;
+
+export interface PreflightThresholds {
+  // Effective resolution below which an image is an error (visibly soft in print)
+  minDpi: number;
+  // Effective resolution below which an image is a warning
+  targetDpi: number;
+}
+
+export const DEFAULT_PREFLIGHT_THRESHOLDS: PreflightThresholds = { minDpi: 150, targetDpi: 240 };
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+export type PreflightSeverity = 'error' | 'warning';
+export type PreflightCheck = 'resolution' | 'media' | 'focal-point' | 'text-overflow';
+
+export interface PreflightIssue {
+  severity: PreflightSeverity;
+  check: PreflightCheck;
+  page: number;
+  templateName: string;
+  message: string;
+  mediaUrl?: string;
+  entryIndex?: number;
+}
+
+export interface PreflightReport {
+  checkedAt: string;
+  assignmentsChecked: number;
+  errors: number;
+  warnings: number;
+  issues: PreflightIssue[];
+}
+
+export class PreflightError extends Error {
+  constructor(message: string, readonly report: PreflightReport) {
+    super(message);
+    this.name = 'PreflightError';
+  }
+}
+
+export function buildPreflightReport(assignmentsChecked: number, issues: PreflightIssue[]): PreflightReport {
+  const sorted = [...issues].sort((a, b) =>
+    a.page - b.page || (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1)
+  );
+  return {
+    checkedAt: new Date().toISOString(),
+    assignmentsChecked,
+    errors: sorted.filter(i => i.severity === 'error').length,
+    warnings: sorted.filter(i => i.severity === 'warning').length,
+    issues: sorted,
+  };
+}
+
+export function formatPreflightReport(report: PreflightReport): string[] {
+  return [
+    `Preflight: ${report.errors} error(s), ${report.warnings} warning(s) across ${report.assignmentsChecked} assignments`,
+    ...report.issues.map(i =>
+      `  ${i.severity === 'error' ? '✗' : '!'} p${i.page} ${i.templateName} [${i.check}] ${i.message}`
+    ),
+  ];
+}
+
+// ─── Assignment Helpers ───────────────────────────────────────────────────────
+
+function assignmentPage(assignment: TemplateAssignment): number {
+  return (assignment.data as { page?: number }).page ?? 0;
+}
+
+function assignmentEntries(assignment: TemplateAssignment): ContentEntryData[] {
+  const entries = (assignment.data as { entries?: ContentEntryData[] }).entries;
+  return Array.isArray(entries) ? entries : [];
+}
+
+// Creator photography/art pages: every entry is expected to fill an image frame.
+function isImageContent(assignment: TemplateAssignment): boolean {
+  const data = assignment.data as Partial<ContentPageData>;
+  return 'page_title' in data && (data.type === 'photography' || data.type === 'art');
+}
+
+function mediaUrls(assignment: TemplateAssignment): string[] {
+  const urls = assignmentEntries(assignment).map(e => e.media_url);
+  urls.push((assignment.data as { avatar_url?: string }).avatar_url);
+  return urls.filter((u): u is string => !!u);
+}
+
+// ─── Media Checks (Node) ──────────────────────────────────────────────────────
+
+async function probeUrl(url: string): Promise<string | null> {
+  try {
+    let res = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(MEDIA_TIMEOUT_MS) });
+    // Some hosts refuse HEAD; ask for a single byte instead.
+    if (res.status === 405 || res.status === 403) {
+      res = await fetch(url, {
+        headers: { Range: 'bytes=0-0' },
+        signal: AbortSignal.timeout(MEDIA_TIMEOUT_MS),
+      });
+      await res.body?.cancel();
+    }
+    return res.ok ? null : `HTTP ${res.status}`;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+// Missing, non-https and unreachable media. Each distinct URL is fetched once.
+export async function checkMedia(assignments: TemplateAssignment[]): Promise<PreflightIssue[]> {
+  const issues: PreflightIssue[] = [];
+  const toProbe = new Map<string, Array<{ assignment: TemplateAssignment; entryIndex?: number }>>();
+
+  for (const assignment of assignments) {
+    const base = { page: assignmentPage(assignment), templateName: assignment.templateName };
+    if (isImageContent(assignment)) {
+      assignmentEntries(assignment).forEach((entry, entryIndex) => {
+        if (!entry.media_url) {
+          issues.push({
+            ...base, severity: 'error', check: 'media', entryIndex,
+            message: `entry ${entryIndex + 1} has no image — a placeholder frame would print`,
+          });
+        }
+      });
+    }
+    if (assignment.templateName === 'MusicPage' && !(assignment.data as Partial<ContentPageData>).listen_url) {
+      issues.push({
+        ...base, severity: 'warning', check: 'media',
+        message: 'no listen link — the QR frame will print as a decorative placeholder',
+      });
+    }
+    for (const url of mediaUrls(assignment)) {
+      if (!url.startsWith('https://')) {
+        issues.push({
+          ...base, severity: 'error', check: 'media', mediaUrl: url,
+          message: 'media URL is not https — templates render it as a placeholder',
+        });
+        continue;
+      }
+      const entryIndex = assignmentEntries(assignment).findIndex(e => e.media_url === url);
+      const users = toProbe.get(url) ?? [];
+      users.push({ assignment, entryIndex: entryIndex >= 0 ? entryIndex : undefined });
+      toProbe.set(url, users);
+    }
+  }
+
+  const results = await Promise.all([...toProbe.keys()].map(async url => [url, await probeUrl(url)] as const));
+  for (const [url, failure] of results) {
+    if (!failure) continue;
+    for (const { assignment, entryIndex } of toProbe.get(url)!) {
+      issues.push({
+        severity: 'error', check: 'media', page: assignmentPage(assignment),
+        templateName: assignment.templateName, mediaUrl: url, entryIndex,
+        message: `media unreachable (${failure})`,
+      });
+    }
+  }
+  return issues;
+}
+
+// ─── Layout Checks (browser) ──────────────────────────────────────────────────
+
+interface InspectedImage {
+  src: string;
+  loaded: boolean;
+  naturalWidth: number;
+  naturalHeight: number;
+  frameWidth: number;
+  frameHeight: number;
+  frameLeft: number;
+}
+
+interface InspectedOverflow {
+  text: string;
+  hiddenPx: number;
+  left: number;
+  // The colophon's credits (data-colophon-credits), where clipping leaves people uncredited
+  credits: boolean;
+}
+
+interface PageInspection {
+  images: InspectedImage[];
+  overflows: InspectedOverflow[];
+}
+
+// Evaluated in the page as a string so no compiled helpers leak into the browser.
+// Overflow candidates are text-bearing elements that clip (overflow other than visible)
+// and hold no image or SVG; only the innermost clipping element of a nest is reported.
+// Credits set in columns overflow sideways, into columns past the clip.
+const INSPECT_PAGE_SCRIPT = `(() => {
+  const images = Array.from(document.images).map(img => {
+    const box = img.getBoundingClientRect();
+    return {
+      src: img.getAttribute('src') || '', loaded: img.complete && img.naturalWidth > 0,
+      naturalWidth: img.naturalWidth, naturalHeight: img.naturalHeight,
+      frameWidth: box.width, frameHeight: box.height, frameLeft: box.left,
+    };
+  });
+  const clipped = [];
+  for (const el of document.querySelectorAll('#root *')) {
+    const style = getComputedStyle(el);
+    if (style.overflowX === 'visible' && style.overflowY === 'visible') continue;
+    if (el.querySelector('img, svg')) continue;
+    const text = (el.innerText || '').trim();
+    if (!text) continue;
+    const hiddenPx = Math.max(el.scrollHeight - el.clientHeight, el.scrollWidth - el.clientWidth);
+    if (hiddenPx > 1) clipped.push({ el, text, hiddenPx });
+  }
+  const overflows = clipped
+    .filter(c => !clipped.some(o => o !== c && c.el.contains(o.el)))
+    .map(c => ({
+      text: c.text.replace(/\\s+/g, ' ').slice(0, 60),
+      hiddenPx: Math.round(c.hiddenPx),
+      left: c.el.getBoundingClientRect().left,
+      credits: c.el.closest('[data-colophon-credits]') !== null,
+    }));
+  return { images, overflows };
+})()`;
+
+interface EvaluatingPage {
+  evaluate(script: string): Promise<unknown>;
+}
+
+// Inspects a page the caller has already loaded with the assignment's template.
+// pageWidth is the single-page canvas width, used to attribute spread findings to
+// the left or right page.
+export async function inspectLoadedPage(
+  page: EvaluatingPage,
+  assignment: TemplateAssignment,
+  pageWidth: number,
+  thresholds: PreflightThresholds = DEFAULT_PREFLIGHT_THRESHOLDS
+): Promise<PreflightIssue[]> {
+  const { images, overflows } = await page.evaluate(INSPECT_PAGE_SCRIPT) as PageInspection;
+  const firstPage = assignmentPage(assignment);
+  const pageAt = (left: number) => firstPage + (left >= pageWidth ? 1 : 0);
+  const entries = assignmentEntries(assignment);
+  const checksFocal = isImageContent(assignment);
+  const issues: PreflightIssue[] = [];
+
+  for (const img of images) {
+    const entryIndex = entries.findIndex(e => e.media_url === img.src);
+    const base = {
+      page: pageAt(img.frameLeft), templateName: assignment.templateName,
+      mediaUrl: img.src, entryIndex: entryIndex >= 0 ? entryIndex : undefined,
+    };
+    if (!img.loaded) {
+      issues.push({ ...base, severity: 'error', check: 'media', message: 'image failed to load in the browser' });
+      continue;
+    }
+    if (img.frameWidth === 0 || img.frameHeight === 0) continue;
+
+    // Frames use object-fit: cover — the image scales to fill the frame on both axes.
+    const scale = Math.max(img.frameWidth / img.naturalWidth, img.frameHeight / img.naturalHeight);
+    const dpi = Math.round(CSS_PX_PER_INCH / scale);
+    const frameIn = `${(img.frameWidth / CSS_PX_PER_INCH).toFixed(1)}×${(img.frameHeight / CSS_PX_PER_INCH).toFixed(1)}in`;
+    if (dpi < thresholds.targetDpi) {
+      issues.push({
+        ...base, severity: dpi < thresholds.minDpi ? 'error' : 'warning', check: 'resolution',
+        message: `${img.naturalWidth}×${img.naturalHeight}px image in a ${frameIn} frame prints at ${dpi}dpi ` +
+          `(minimum ${thresholds.minDpi}, target ${thresholds.targetDpi})`,
+      });
+    }
+
+    const entry = entryIndex >= 0 ? entries[entryIndex] : undefined;
+    if (checksFocal && entry && (entry.focal_x == null || entry.focal_y == null)) {
+      const visible = Math.min(
+        img.frameWidth / (img.naturalWidth * scale),
+        img.frameHeight / (img.naturalHeight * scale)
+      );
+      const cropped = 1 - visible;
+      if (cropped > FOCAL_CROP_THRESHOLD) {
+        issues.push({
+          ...base, severity: 'warning', check: 'focal-point',
+          message: `${Math.round(cropped * 100)}% of the image is cropped and no focal point is set`,
+        });
+      }
+    }
+  }
+
+  for (const overflow of overflows) {
+    issues.push(overflow.credits
+      ? {
+          severity: 'error', check: 'text-overflow', page: pageAt(overflow.left),
+          templateName: assignment.templateName,
+          message: `colophon credits do not fit (${overflow.hiddenPx}px clipped) — some names would not print`,
+        }
+      : {
+          severity: 'warning', check: 'text-overflow', page: pageAt(overflow.left),
+          templateName: assignment.templateName,
+          message: `text clipped by ${overflow.hiddenPx}px: "${overflow.text}"`,
+        });
+  }
+  return issues;
+}
@@ -217,6 +217,49 @@ function BleedMarks({ dark=false }) {
   );
 }
 
+// FlowText — a page's share of a flowing text (see core/textFlow.ts). Fills the rest of
+// its flex column and clips; the generator measures what fits in region n and moves the
+// remainder on, so nothing clipped is ever lost.
+function FlowText({ paragraphs=[], region=0, dropCap=false, style={} }) {
+  return (
+    <div data-text-flow={region} style={{
+      flex:1, minHeight:0, overflow:'hidden',
+      fontFamily:F.serif, fontSize:12.5, lineHeight:1.88, color:C.ground,
+      ...style,
+    }}>
+      {paragraphs.map((text, i) => (
+        <p key={i} style={{ margin:0, marginBottom:10 }}>
+          {dropCap && i === 0 ? (
+            <>
+              <span style={{
+                float:'left', fontSize:70, lineHeight:0.78, fontFamily:F.serif,
+                color:C.ground, marginRight:6, marginTop:6, marginBottom:0,
+              }}>
+                {text[0]}
+              </span>
+              {text.slice(1)}
+            </>
+          ) : text}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// JumpLine — "continues on" note under a flowing text. Its line is always reserved, so
+// a region measures the same whether or not the text runs on.
+function JumpLine({ page }) {
+  return (
+    <div style={{ height:18, flexShrink:0, display:'flex', alignItems:'flex-end', justifyContent:'flex-end' }}>
+      {page && (
+        <span style={{ fontFamily:F.mono, fontSize:8, color:C.terra, letterSpacing:'0.10em', textTransform:'uppercase' }}>
+          Continues on p.{page} →
+        </span>
+      )}
+    </div>
+  );
+}
+
 // Annotation overlay for data fields
 function Annotation({ label, style={} }) {
   return (
@@ -238,4 +281,5 @@ Object.assign(window, {
   TerraRule, GoldRule, DoubleRule,
   Folio, GrainOverlay, RegistrationMark,
   VerticalContributorLabel, Annotation, BleedMarks,
+  FlowText, JumpLine,
 });
@@ -0,0 +1,30 @@
+// src/magazine/core/qr.ts — QR codes for MusicPage, encoded locally with the qrcode package.
+// The code is handed to the template as an SVG path rather than an image, so it prints as
+// vector geometry at any size and no page ever calls out to a QR service.
+
+import QRCode from 'qrcode';
+
+import type { QrCodeData } from './types';
+
+// M tolerates ~15% damage — enough for ink spread and paper texture without making
+// typical streaming links denser than version 4 (33 × 33 modules).
+const ERROR_CORRECTION = 'M';
+
+// Dark modules as one path in module units: each horizontal run of dark modules in a row
+// becomes a single rectangle, which keeps the path short and avoids hairline seams
+// between neighbouring modules.
+export function encodeQr(text: string): QrCodeData {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: ERROR_CORRECTION });
+  const { size, data } = modules;
+  const parts: string[] = [];
+  for (let y = 0; y < size; y++) {
+    let x = 0;
+    while (x < size) {
+      if (!data[y * size + x]) { x++; continue; }
+      const start = x;
+      while (x < size && data[y * size + x]) x++;
+      parts.push(`M${start} ${y}h${x - start}v1h-${x - start}z`);
+    }
+  }
+  return { size, path: parts.join('') };
+}
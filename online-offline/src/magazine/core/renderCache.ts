@@ -0,0 +1,169 @@
+// src/magazine/core/renderCache.ts — Rendered slots cached on disk, so regenerating an
+// edition only renders the slots whose inputs changed. A slot's key hashes everything
+// that decides what it looks like: the template set and its source hash, the template,
+// the output variant, the template data, and a checksum of every image it shows (a file
+// replaced in Storage under the same URL must not reuse the old render). A slot whose
+// media cannot be checksummed is rendered and not cached.
+// Files are written to a temporary name and renamed, so concurrent runs never read a
+// partial entry. Entries untouched for CACHE_MAX_AGE_DAYS are pruned after each run.
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, unlinkSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import type { TemplateBundle } from './templateBundle';
+
+export const DEFAULT_RENDER_CACHE_DIR = join(tmpdir(), 'magazine-render-cache');
+
+// Bump when rendering changes in a way the key does not capture (page HTML, fonts, PDF
+// options). 2: version 1 entries may hold pages that failed to render (see renderErrors.ts).
+const CACHE_VERSION = 2;
+const CACHE_MAX_AGE_DAYS = 30;
+const MEDIA_TIMEOUT_MS = 10_000;
+// Data fields holding media the page loads
+const MEDIA_FIELDS = new Set(['media_url', 'avatar_url']);
+
+export interface CacheableSlot {
+  templateName: string;
+  data: unknown;
+  isSpread: boolean;
+}
+
+// ─── Media Checksums ──────────────────────────────────────────────────────────
+
+export function slotMediaUrls(data: unknown, urls: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(data)) {
+    for (const item of data) slotMediaUrls(item, urls);
+  } else if (data && typeof data === 'object') {
+    for (const [key, value] of Object.entries(data)) {
+      if (MEDIA_FIELDS.has(key) && typeof value === 'string' && value) urls.add(value);
+      else slotMediaUrls(value, urls);
+    }
+  }
+  return urls;
+}
+
+// The server's validator when it sends one (ETag, else Last-Modified with the length),
+// otherwise a hash of the file itself. null when the file cannot be fetched.
+async function mediaChecksum(url: string): Promise<string | null> {
+  try {
+    const head = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(MEDIA_TIMEOUT_MS) });
+    if (head.ok) {
+      const etag = head.headers.get('etag');
+      if (etag) return `etag:${etag}`;
+      const modified = head.headers.get('last-modified');
+      const length = head.headers.get('content-length');
+      if (modified && length) return `modified:${modified}:${length}`;
+    }
+    const res = await fetch(url, { signal: AbortSignal.timeout(MEDIA_TIMEOUT_MS) });
+    if (!res.ok) return null;
+    return `sha256:${createHash('sha256').update(Buffer.from(await res.arrayBuffer())).digest('hex')}`;
+  } catch {
+    return null;
+  }
+}
+
+// Checksums of every distinct media URL across the slots, fetched in parallel
+export async function fetchMediaChecksums(slots: CacheableSlot[]): Promise<Map<string, string | null>> {
+  const urls = new Set<string>();
+  for (const slot of slots) slotMediaUrls(slot.data, urls);
+  const entries = await Promise.all([...urls].map(async url => [url, await mediaChecksum(url)] as const));
+  return new Map(entries);
+}
+
+// ─── Keys ─────────────────────────────────────────────────────────────────────
+
+// JSON with object keys sorted, so equal data always serializes the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const fields = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// The slot's cache key, or null when one of its images has no checksum. variant names
+// what is being cached (e.g. 'vector', 'raster@4', 'preflight:150/240').
+export function slotCacheKey(
+  slot: CacheableSlot,
+  bundle: TemplateBundle,
+  variant: string,
+  mediaChecksums: Map<string, string | null>
+): string | null {
+  const media: Record<string, string> = {};
+  for (const url of slotMediaUrls(slot.data)) {
+    const checksum = mediaChecksums.get(url);
+    if (!checksum) return null;
+    media[url] = checksum;
+  }
+  return createHash('sha256').update(stableStringify({
+    version: CACHE_VERSION,
+    templateSet: bundle.manifest.templateSet,
+    sourceHash: bundle.manifest.sourceHash,
+    templateName: slot.templateName,
+    isSpread: slot.isSpread,
+    variant,
+    data: slot.data,
+    media,
+  })).digest('hex');
+}
+
+// ─── Entries ──────────────────────────────────────────────────────────────────
+
+function entryPath(dir: string, key: string, index: number, ext: string): string {
+  return join(dir, `${key}.${index}.${ext}`);
+}
+
+// The entry's files, or null on a miss. A hit is touched so pruning keeps it.
+export function readCacheEntry(dir: string, key: string, count: number, ext: string): Buffer[] | null {
+  const paths = Array.from({ length: count }, (_, i) => entryPath(dir, key, i, ext));
+  if (!paths.every(path => existsSync(path))) return null;
+  try {
+    const now = new Date();
+    return paths.map(path => {
+      utimesSync(path, now, now);
+      return readFileSync(path);
+    });
+  } catch {
+    return null;
+  }
+}
+
+// A cache that cannot be written only costs the next run a render, so failures just warn.
+export function writeCacheEntry(dir: string, key: string, ext: string, buffers: Buffer[]): void {
+  try {
+    mkdirSync(dir, { recursive: true });
+    buffers.forEach((buf, i) => {
+      const path = entryPath(dir, key, i, ext);
+      const partial = `${path}.${process.pid}.partial`;
+      writeFileSync(partial, buf);
+      renameSync(partial, path);
+    });
+  } catch (err) {
+    console.warn(`[render-cache] could not write ${key}:`, err instanceof Error ? err.message : String(err));
+  }
+}
+
+// Removes entries not used for CACHE_MAX_AGE_DAYS; returns how many files went.
+export function pruneRenderCache(dir: string, maxAgeDays = CACHE_MAX_AGE_DAYS): number {
+  if (!existsSync(dir)) return 0;
+  const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+  let removed = 0;
+  for (const name of readdirSync(dir)) {
+    const path = join(dir, name);
+    try {
+      if (statSync(path).mtimeMs < cutoff) {
+        unlinkSync(path);
+        removed++;
+      }
+    } catch {
+      // Removed by a concurrent run
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,80 @@
+// src/magazine/core/renderErrors.ts — Catching pages that did not draw properly. While a
+// slot renders, everything the page reports is collected: uncaught exceptions (a template
+// that throws or is missing from the bundle), console errors, and requests that failed or
+// came back with an error status (an image that did not load). A slot with any of these
+// is failed rather than printed as a blank or half-drawn page. What a failed slot means
+// for the edition is the caller's policy (see RenderFailureMode in generator.ts).
+
+import type { ConsoleMessage, HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+
+export type RenderProblemKind = 'exception' | 'console' | 'request';
+
+export interface RenderProblem {
+  kind: RenderProblemKind;
+  message: string;
+}
+
+export interface FailedSlot {
+  // Printed page numbers of the slot
+  pages: number[];
+  templateName: string;
+  source: string;
+  attempts: number;
+  problems: RenderProblem[];
+}
+
+export class RenderError extends Error {
+  constructor(message: string, readonly failures: FailedSlot[]) {
+    super(message);
+    this.name = 'RenderError';
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Runs render against page and reports every problem the page raised meanwhile. A render
+// that throws (e.g. a load timeout) yields no result and the error as a problem.
+export async function captureRenderProblems<T>(
+  page: Page,
+  render: () => Promise<T>
+): Promise<{ result: T | null; problems: RenderProblem[] }> {
+  const problems: RenderProblem[] = [];
+  const report = (kind: RenderProblemKind, message: string) => {
+    if (!problems.some(p => p.kind === kind && p.message === message)) problems.push({ kind, message });
+  };
+
+  const onPageError = (err: unknown) => report('exception', errorMessage(err));
+  const onConsole = (msg: ConsoleMessage) => {
+    if (msg.type() === 'error') report('console', msg.text());
+  };
+  const onRequestFailed = (req: HTTPRequest) => {
+    report('request', `${req.url()} — ${req.failure()?.errorText ?? 'failed'}`);
+  };
+  const onResponse = (res: HTTPResponse) => {
+    if (res.status() >= 400) report('request', `${res.url()} — HTTP ${res.status()}`);
+  };
+
+  page.on('pageerror', onPageError);
+  page.on('console', onConsole);
+  page.on('requestfailed', onRequestFailed);
+  page.on('response', onResponse);
+  try {
+    return { result: await render(), problems };
+  } catch (err) {
+    report('exception', errorMessage(err));
+    return { result: null, problems };
+  } finally {
+    page.off('pageerror', onPageError);
+    page.off('console', onConsole);
+    page.off('requestfailed', onRequestFailed);
+    page.off('response', onResponse);
+  }
+}
+
+export function formatFailedSlot(failure: FailedSlot): string {
+  const pages = failure.pages.join('–');
+  const problems = failure.problems.map(p => `${p.kind}: ${p.message}`).join('; ');
+  return `p.${pages} ${failure.templateName} failed after ${failure.attempts} attempt(s) — ${problems}`;
+}
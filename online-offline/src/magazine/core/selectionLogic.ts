@@ -1,8 +1,11 @@
 // src/magazine/core/selectionLogic.ts — Template selection decision tree.
 // Implements the rules from src/magazine/SELECTION_LOGIC.md exactly.
 
+import { encodeQr } from './qr';
+import { CONTINUATION_TEMPLATE, countWords, splitParagraphs } from './textFlow';
 import type {
   SelectionItem,
+  SelectionItemCreator,
   TemplateAssignment,
   ContentPageData,
   CollabPageData,
@@ -10,16 +13,12 @@ import type {
   CampaignPageData,
 } from './types';
 
-function countWords(text: string): number {
-  return text.trim().split(/\s+/).filter(Boolean).length;
-}
-
 function totalCaptionWords(entries: Array<{ caption?: string }>): number {
   return entries.reduce((sum, e) => sum + countWords(e.caption ?? ''), 0);
 }
 
 // Poetry detection: ALL three conditions must hold.
-function isPoetry(body: string): boolean {
+export function isPoetry(body: string): boolean {
   if (!body.includes('\n\n')) return false; // must have a stanza break
 
   const lines = body.split('\n');
@@ -40,86 +39,135 @@ function splitBody(body: string): { para1: string; para2: string; para3: string
   return { para1: paras[0] ?? body, para2: paras[1] ?? '', para3: paras[2] ?? '' };
 }
 
+// The text of an essay or poem: SubmissionForm stores it as the entry body; older
+// submissions carried it in the caption.
+export function textBody(item: SelectionItemCreator): string {
+  const entry = item.entries[0];
+  return entry?.body || entry?.caption || '';
+}
+
+// ─── Eligible Templates ───────────────────────────────────────────────────────
+
+export interface TemplateOption {
+  templateName: string;
+  pageCount: number;
+}
+
+// Below this an essay leaves most of a TextSpread empty, so it is not offered.
+const TEXT_SPREAD_MIN_WORDS = 250;
+
+// The layouts a creator submission can take, the rule-based default first. Curators
+// may store any of these as an override; anything else falls back to the default.
+function creatorTemplateOptions(item: SelectionItemCreator): TemplateOption[] {
+  const { contentType, submissionType, entries } = item;
+  const single = (templateName: string): TemplateOption => ({ templateName, pageCount: 1 });
+  const spread = (templateName: string): TemplateOption => ({ templateName, pageCount: 2 });
+
+  if (contentType === 'music') return [single('MusicPage')];
+
+  if (contentType === 'essay' || contentType === 'poetry') {
+    const body = textBody(item);
+    const wordCount = countWords(body);
+    if (isPoetry(body)) {
+      return [
+        single('PoetryPage'),
+        ...(wordCount <= 500 ? [single('TextSubmission')] : []),
+        spread('TextSpread'),
+      ];
+    }
+    if (wordCount <= 500) {
+      return [
+        single('TextSubmission'),
+        ...(wordCount >= TEXT_SPREAD_MIN_WORDS ? [spread('TextSpread')] : []),
+        // Submitted as poetry but not detected as such: the curator can still set it as a poem.
+        ...(contentType === 'poetry' ? [single('PoetryPage')] : []),
+      ];
+    }
+    return [spread('TextSpread')];
+  }
+
+  // ── Photography / Art ───────────────────────────────────────────────────
+  if (submissionType === 'fullSpread') return [spread('SpreadPanorama')];
+
+  const count = entries.length;
+  if (count === 1) {
+    return totalCaptionWords(entries) <= 50
+      ? [spread('SpreadPanorama'), spread('Spread')]
+      : [spread('Spread'), spread('SpreadPanorama')];
+  }
+  if (count === 2) return [spread('Spread2')];
+  if (count <= 4)  return [spread('Spread4')];
+  if (count <= 6)  return [spread('SpreadMosaic')];
+  return [spread('Spread6')];
+}
+
+export function eligibleTemplates(item: SelectionItem): TemplateOption[] {
+  if (item.kind === 'creator') return creatorTemplateOptions(item);
+  const { templateName, pageCount } = selectTemplate(item, 0);
+  return [{ templateName, pageCount }];
+}
+
+// ─── Template Selection ───────────────────────────────────────────────────────
+
 export function selectTemplate(item: SelectionItem, pageStart: number): TemplateAssignment {
   switch (item.kind) {
     case 'creator': {
-      const { contentType, submissionType, entries, pageTitle, contributor, season } = item;
+      const { contentType, entries, pageTitle, contributor, season } = item;
+      const options = creatorTemplateOptions(item);
+      const { templateName, pageCount } = options.find(o => o.templateName === item.layout) ?? options[0];
 
       // ── Music ─────────────────────────────────────────────────────────────
-      if (contentType === 'music') {
+      if (templateName === 'MusicPage') {
         const data: ContentPageData = {
           page: pageStart, type: contentType, page_title: pageTitle,
           season, contributor, entries,
+          listen_url: item.listenUrl,
+          listen_qr: item.listenUrl ? encodeQr(item.listenUrl) : undefined,
         };
-        return { templateName: 'MusicPage', pageCount: 1, data };
+        return { templateName, pageCount, data };
       }
 
       // ── Essay / Poetry ────────────────────────────────────────────────────
-      if (contentType === 'essay' || contentType === 'poetry') {
-        const body = entries[0]?.caption ?? '';
+      if (templateName === 'PoetryPage' || templateName === 'TextSubmission' || templateName === 'TextSpread') {
+        const body = textBody(item);
         const wordCount = countWords(body);
 
-        if (isPoetry(body)) {
+        if (templateName === 'PoetryPage') {
           const data: ContentPageData = {
             page: pageStart, type: 'poetry', page_title: pageTitle,
             season, contributor, entries, body, word_count: wordCount,
           };
-          return { templateName: 'PoetryPage', pageCount: 1, data };
+          return { templateName, pageCount, data };
         }
 
-        if (wordCount <= 500) {
-          const { para1, para2, para3 } = splitBody(body);
-          const data: ContentPageData = {
-            page: pageStart, type: contentType, page_title: pageTitle,
-            season, contributor, entries,
-            body, word_count: wordCount,
-            body_para1: para1, body_para2: para2, body_para3: para3,
-          };
-          return { templateName: 'TextSubmission', pageCount: 1, data };
-        }
-
-        const truncated = wordCount > 1800
-          ? body.split(/\s+/).slice(0, 1800).join(' ') + '…'
-          : body;
-        const { para1, para2, para3 } = splitBody(truncated);
+        // Flowed text fills the template's pages and may run on (see continuationPages);
+        // unflowed, all of it is offered to the first page.
+        const flow = item.textFlow;
+        const textPages = flow
+          ? flow.slice(0, pageCount)
+          : Array.from({ length: pageCount }, (_, i) => (i === 0 ? splitParagraphs(body) : []));
+        const { para1, para2, para3 } = splitBody(body);
         const data: ContentPageData = {
           page: pageStart, type: contentType, page_title: pageTitle,
           season, contributor, entries,
-          body: truncated, word_count: Math.min(wordCount, 1800),
+          body, word_count: wordCount,
           body_para1: para1, body_para2: para2, body_para3: para3,
+          text_pages: textPages,
+          continues_on: flow && flow.length > pageCount ? pageStart + pageCount : undefined,
         };
-        return { templateName: 'TextSpread', pageCount: 2, data };
+        return { templateName, pageCount, data };
       }
 
       // ── Photography / Art ─────────────────────────────────────────────────
-      if (submissionType === 'fullSpread') {
-        const data: ContentPageData = {
-          page: pageStart, type: contentType, page_title: pageTitle,
-          season, contributor, entries,
-        };
-        return { templateName: 'SpreadPanorama', pageCount: 2, data };
-      }
-
-      const count = entries.length;
-      const captionWords = totalCaptionWords(entries);
-
-      let templateName: string;
-      if (count === 1 && captionWords <= 50) templateName = 'SpreadPanorama';
-      else if (count === 1)                  templateName = 'Spread';
-      else if (count === 2)                  templateName = 'Spread2';
-      else if (count <= 4)                   templateName = 'Spread4';
-      else if (count <= 6)                   templateName = 'SpreadMosaic';
-      else                                   templateName = 'Spread6';
-
       const data: ContentPageData = {
         page: pageStart, type: contentType, page_title: pageTitle,
         season, contributor, entries,
       };
-      return { templateName, pageCount: 2, data };
+      return { templateName, pageCount, data };
     }
 
     case 'collab': {
-      const { collabTitle, participationMode, displayText, entries, location, city, season } = item;
+      const { collabTitle, participationMode, displayText, entries, members, location, city, season } = item;
       const templateMap: Record<string, string> = {
         community: 'CollabSpreadCommunity',
         local:     'CollabSpreadLocal',
@@ -128,7 +176,7 @@ export function selectTemplate(item: SelectionItem, pageStart: number): Template
       const data: CollabPageData = {
         page: pageStart, collab_title: collabTitle,
         mode: participationMode, season, display_text: displayText,
-        location, city, entries,
+        location, city, entries, members,
       };
       return {
         templateName: templateMap[participationMode] ?? 'CollabSpreadCommunity',
@@ -138,8 +186,10 @@ export function selectTemplate(item: SelectionItem, pageStart: number): Template
     }
 
     case 'communications': {
+      const pages = item.pages ?? [item.messages];
       const data: CommunicationsPageData = {
-        page: pageStart, season: item.season, messages: item.messages,
+        page: pageStart, season: item.season, messages: pages[0] ?? [],
+        part: 1, parts: pages.length,
       };
       return { templateName: 'CommunicationsPage', pageCount: 1, data };
     }
@@ -153,3 +203,35 @@ export function selectTemplate(item: SelectionItem, pageStart: number): Template
     }
   }
 }
+
+// ─── Continuation Pages ───────────────────────────────────────────────────────
+
+// The pages an item runs onto after its template, which starts on pageStart: further
+// CommunicationsPages for dispatches that fill more than one, TextContinuation pages for
+// flowed text. Empty for everything else.
+export function continuationPages(item: SelectionItem, pageStart: number): TemplateAssignment[] {
+  if (item.kind === 'communications') {
+    const pages = item.pages ?? [item.messages];
+    return pages.slice(1).map((messages, i) => {
+      const data: CommunicationsPageData = {
+        page: pageStart + 1 + i, season: item.season, messages,
+        part: i + 2, parts: pages.length,
+      };
+      return { templateName: 'CommunicationsPage', pageCount: 1, data };
+    });
+  }
+  if (item.kind !== 'creator' || !item.textFlow) return [];
+  const { pageCount } = selectTemplate(item, 0);
+  const flow = item.textFlow;
+  return flow.slice(pageCount).map((paragraphs, i) => {
+    const page = pageStart + pageCount + i;
+    const data: ContentPageData = {
+      page, type: item.contentType, page_title: item.pageTitle,
+      season: item.season, contributor: item.contributor, entries: [],
+      text_pages: [paragraphs],
+      continued_from: page - 1,
+      continues_on: pageCount + i + 1 < flow.length ? page + 1 : undefined,
+    };
+    return { templateName: CONTINUATION_TEMPLATE, pageCount: 1, data };
+  });
+}
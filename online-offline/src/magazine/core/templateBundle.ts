@@ -0,0 +1,211 @@
+// src/magazine/core/templateBundle.ts — The precompiled template bundles.
+// scripts/build-magazine-templates.ts compiles primitives.jsx, fallbacks.jsx, every
+// templates-*.jsx and each per-issue template set into one browser script per set, plus
+// a manifest, under src/magazine/generated/<set-name>/. The generator and the admin
+// preview inline the bundle for the period's set, so JSX is never compiled at render
+// time and a template syntax error fails the build, not a screenshot.
+
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import { escapeInlineScript } from './assets';
+
+// ─── Sources ──────────────────────────────────────────────────────────────────
+
+const MAGAZINE_DIR = join(process.cwd(), 'src/magazine');
+export const TEMPLATES_DIR = join(MAGAZINE_DIR, 'templates');
+export const BASE_TEMPLATE_SET = 'base';
+export const TEMPLATE_BASE = join(TEMPLATES_DIR, BASE_TEMPLATE_SET);
+export const PRIMITIVES_PATH = join(MAGAZINE_DIR, 'core/primitives.jsx');
+export const FALLBACKS_PATH = join(MAGAZINE_DIR, 'core/fallbacks.jsx');
+
+const GENERATED_DIR = join(MAGAZINE_DIR, 'generated');
+// Declares a per-issue template set: templates/<set-name>/set.json
+const SET_MANIFEST_FILE = 'set.json';
+
+// Maps template name → JSX file in templates/base that publishes it on window
+export const TEMPLATE_FILE_MAP = {
+  CoverA:                'templates-1-4.jsx',
+  SinglePhoto:           'templates-1-4.jsx',
+  TextSubmission:        'templates-5-8.jsx',
+  CommunicationsPage:    'templates-9-11.jsx',
+  Spread:                'templates-9-11.jsx',
+  CampaignPage:          'templates-9-11.jsx',
+  Spread2:               'templates-12-17.jsx',
+  Spread4:               'templates-12-17.jsx',
+  Spread6:               'templates-12-17.jsx',
+  TextSpread:            'templates-12-17.jsx',
+  TextContinuation:      'templates-12-17.jsx',
+  MusicPage:             'templates-12-17.jsx',
+  ColophonPage:          'templates-12-17.jsx',
+  SpreadPanorama:        'templates-18-19.jsx',
+  SpreadMosaic:          'templates-18-19.jsx',
+  FrontMatter:           'templates-20-24.jsx',
+  PoetryPage:            'templates-20-24.jsx',
+  CollabSpreadCommunity: 'templates-20-24.jsx',
+  CollabSpreadLocal:     'templates-20-24.jsx',
+  CollabSpreadPrivate:   'templates-20-24.jsx',
+} as const;
+
+// Components supplied by fallbacks.jsx rather than a template file
+export const FALLBACK_TEMPLATES = ['BlankPage', 'PlaceholderPage'] as const;
+
+export type TemplateName =
+  | keyof typeof TEMPLATE_FILE_MAP
+  | (typeof FALLBACK_TEMPLATES)[number];
+
+// ─── Template Sets ────────────────────────────────────────────────────────────
+// A per-issue set is a directory beside base/ holding only the templates that issue
+// redesigns, plus a set.json naming them:
+//   { "description": "…", "overrides": { "CoverA": "cover.jsx" } }
+// Each override file publishes its components on window under the base name; its
+// bundle is the base bundle with the override files appended, so every template the
+// set does not override is inherited from base.
+
+export interface TemplateSetManifest {
+  description?: string;
+  // template name → JSX file in the set's directory
+  overrides: Record<string, string>;
+}
+
+export interface TemplateSet {
+  name: string;
+  dir: string;
+  overrides: Record<string, string>;
+}
+
+const BASE_SET: TemplateSet = { name: BASE_TEMPLATE_SET, dir: TEMPLATE_BASE, overrides: {} };
+
+// Every set with a set.json under templates/, base first.
+export function listTemplateSets(): string[] {
+  const sets = readdirSync(TEMPLATES_DIR, { withFileTypes: true })
+    .filter(d => d.isDirectory() && d.name !== BASE_TEMPLATE_SET)
+    .filter(d => existsSync(join(TEMPLATES_DIR, d.name, SET_MANIFEST_FILE)))
+    .map(d => d.name)
+    .sort();
+  return [BASE_TEMPLATE_SET, ...sets];
+}
+
+// Reads and validates a set's manifest. An unknown set is an error rather than a silent
+// fall back to base, so an old edition is never reprinted in the wrong templates.
+export function resolveTemplateSet(name: string = BASE_TEMPLATE_SET): TemplateSet {
+  if (name === BASE_TEMPLATE_SET) return BASE_SET;
+
+  const dir = join(TEMPLATES_DIR, name);
+  const manifestPath = join(dir, SET_MANIFEST_FILE);
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(name) || !existsSync(manifestPath)) {
+    throw new TemplateBundleError(
+      `Unknown template set "${name}" — expected ${join('src/magazine/templates', name, SET_MANIFEST_FILE)}`
+    );
+  }
+
+  let manifest: TemplateSetManifest;
+  try {
+    manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as TemplateSetManifest;
+  } catch (err) {
+    throw new TemplateBundleError(`Template set "${name}": invalid ${SET_MANIFEST_FILE} (${err instanceof Error ? err.message : err})`);
+  }
+  const overrides = manifest.overrides ?? {};
+  for (const [template, file] of Object.entries(overrides)) {
+    if (!(template in TEMPLATE_FILE_MAP)) {
+      throw new TemplateBundleError(`Template set "${name}" overrides unknown template ${template}`);
+    }
+    if (!existsSync(join(dir, file))) {
+      throw new TemplateBundleError(`Template set "${name}": ${file} (for ${template}) does not exist`);
+    }
+  }
+  return { name, dir, overrides };
+}
+
+// Every file that contributes to a set's bundle, in the order it is concatenated:
+// shared core, the base templates, then the set's overrides.
+export function templateSourcePaths(set: TemplateSet = BASE_SET): string[] {
+  const baseFiles = [...new Set(Object.values(TEMPLATE_FILE_MAP))].sort();
+  const overrideFiles = [...new Set(Object.values(set.overrides))].sort();
+  return [
+    PRIMITIVES_PATH,
+    FALLBACKS_PATH,
+    ...baseFiles.map(f => join(TEMPLATE_BASE, f)),
+    ...overrideFiles.map(f => join(set.dir, f)),
+  ];
+}
+
+// Source file (relative to src/magazine) that supplies each template in a set
+export function templateSources(set: TemplateSet = BASE_SET): Record<string, string> {
+  const sources: Record<string, string> = {};
+  for (const name of FALLBACK_TEMPLATES) sources[name] = relativeSource(FALLBACKS_PATH);
+  for (const [name, file] of Object.entries(TEMPLATE_FILE_MAP)) {
+    const override = set.overrides[name];
+    sources[name] = relativeSource(override ? join(set.dir, override) : join(TEMPLATE_BASE, file));
+  }
+  return sources;
+}
+
+function relativeSource(path: string): string {
+  return path.slice(MAGAZINE_DIR.length + 1);
+}
+
+export function hashTemplateSources(set: TemplateSet = BASE_SET): string {
+  const hash = createHash('sha256');
+  for (const path of templateSourcePaths(set)) {
+    hash.update(relativeSource(path));
+    hash.update(readFileSync(path));
+  }
+  return hash.digest('hex');
+}
+
+// ─── Bundle ───────────────────────────────────────────────────────────────────
+
+export interface TemplateBundleManifest {
+  templateSet: string;
+  sourceHash: string;
+  builtAt: string;
+  // template name → source file (relative to src/magazine) it was compiled from
+  templates: Record<string, string>;
+}
+
+export interface TemplateBundle {
+  code: string;
+  manifest: TemplateBundleManifest;
+}
+
+export class TemplateBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateBundleError';
+  }
+}
+
+// One bundle and manifest per set: generated/<set-name>/
+export function bundlePaths(setName: string): { bundlePath: string; manifestPath: string } {
+  const dir = join(GENERATED_DIR, setName);
+  return {
+    bundlePath: join(dir, 'templates.bundle.js'),
+    manifestPath: join(dir, 'templates.manifest.json'),
+  };
+}
+
+// Loads a set's bundle and refuses to use it if the JSX sources changed since it was
+// built, so a preview can never show stale templates.
+export function loadTemplateBundle(setName: string = BASE_TEMPLATE_SET): TemplateBundle {
+  const set = resolveTemplateSet(setName);
+  const { bundlePath, manifestPath } = bundlePaths(set.name);
+  if (!existsSync(bundlePath) || !existsSync(manifestPath)) {
+    throw new TemplateBundleError(
+      `Template bundle for set "${set.name}" not built (${bundlePath}) — run \`npm run build:templates\``
+    );
+  }
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as TemplateBundleManifest;
+  if (manifest.sourceHash !== hashTemplateSources(set)) {
+    throw new TemplateBundleError(
+      `Template bundle for set "${set.name}" is out of date with src/magazine sources — run \`npm run build:templates\``
+    );
+  }
+  return { code: escapeInlineScript(readFileSync(bundlePath, 'utf-8')), manifest };
+}
+
+// The component name to mount for a template: unknown names render PlaceholderPage.
+export function resolveComponentName(bundle: TemplateBundle, templateName: string): string {
+  return templateName in bundle.manifest.templates ? templateName : 'PlaceholderPage';
+}
@@ -0,0 +1,181 @@
+// src/magazine/core/textFlow.ts — Flowing essay text across a template's pages and on to
+// continuation pages. Text templates mark each page's body as a flow region
+// (data-text-flow="<n>", see FlowText in primitives.jsx) that clips what it cannot hold.
+// The generator and admin preview lay each candidate page out in Chromium and measure what
+// actually fits; without a browser, word capacities estimate it. Nothing is cut:
+// whatever does not fit moves on to a TextContinuation page.
+
+// ─── Paragraphs ───────────────────────────────────────────────────────────────
+
+export const CONTINUATION_TEMPLATE = 'TextContinuation';
+
+// Templates whose body flows; each page of the template is one region.
+export const FLOWING_TEMPLATES = new Set(['TextSubmission', 'TextSpread']);
+
+// A safety stop far beyond anything the submission word cap allows.
+const MAX_CONTINUATION_PAGES = 16;
+
+// A split leaves at least this many words on each side; a shorter tail pulls the split
+// back, a shorter head moves the whole paragraph on.
+const MIN_SPLIT_WORDS = 8;
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+export function splitParagraphs(body: string): string[] {
+  return body.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+}
+
+// ─── Fitting ──────────────────────────────────────────────────────────────────
+
+export interface TextRegionFit {
+  // Whole paragraphs that fit, then words of the next one
+  paragraphs: number;
+  words: number;
+}
+
+// How much of textPages[region] fits when the template is laid out with textPages.
+export type RegionFitter = (templateName: string, region: number, textPages: string[][]) => Promise<TextRegionFit>;
+
+// Rough words per region at the templates' 12.5px body size, for when no browser is at
+// hand. They err small, so an estimate never shows text the print would clip.
+const REGION_WORD_ESTIMATES: Record<string, number[]> = {
+  TextSubmission:   [540],
+  TextSpread:       [460, 700],
+  TextContinuation: [640],
+};
+// A paragraph break costs about half a line
+const PARAGRAPH_BREAK_WORDS = 8;
+
+export async function estimateFit(templateName: string, region: number, textPages: string[][]): Promise<TextRegionFit> {
+  let capacity = REGION_WORD_ESTIMATES[templateName]?.[region] ?? 0;
+  const paragraphs = textPages[region] ?? [];
+  for (let i = 0; i < paragraphs.length; i++) {
+    const words = countWords(paragraphs[i]);
+    if (words > capacity) return { paragraphs: i, words: Math.max(0, capacity) };
+    capacity -= words + PARAGRAPH_BREAK_WORDS;
+  }
+  return { paragraphs: paragraphs.length, words: 0 };
+}
+
+// ─── Flow ─────────────────────────────────────────────────────────────────────
+
+// Splits the first paragraph that does not fit, pulling the split back so the tail
+// carries at least MIN_SPLIT_WORDS. When nothing else is on the page (mustTake), a short
+// head or tail is accepted rather than moving a paragraph the page cannot hold.
+function takeText(paragraphs: string[], fit: TextRegionFit, mustTake = false): [string[], string[]] {
+  const taken = paragraphs.slice(0, fit.paragraphs);
+  const rest = paragraphs.slice(fit.paragraphs);
+  if (rest.length === 0) return [taken, rest];
+
+  const words = rest[0].split(/\s+/);
+  if (fit.words >= words.length) {
+    taken.push(rest.shift()!);
+    return [taken, rest];
+  }
+  let head = Math.min(fit.words, words.length - MIN_SPLIT_WORDS);
+  if (head < MIN_SPLIT_WORDS) head = mustTake && taken.length === 0 ? fit.words : 0;
+  if (head > 0) {
+    taken.push(words.slice(0, head).join(' '));
+    rest[0] = words.slice(head).join(' ');
+  }
+  return [taken, rest];
+}
+
+// Paragraphs per page: one entry for each of the template's regionCount pages (empty if
+// the text ends first), then one per continuation page needed for the rest.
+export async function flowText(
+  paragraphs: string[],
+  templateName: string,
+  regionCount: number,
+  fit: RegionFitter
+): Promise<string[][]> {
+  const pages: string[][] = [];
+  let remaining = paragraphs;
+
+  while (pages.length < regionCount || remaining.length > 0) {
+    if (remaining.length === 0) {
+      pages.push([]);
+      continue;
+    }
+    const inTemplate = pages.length < regionCount;
+    if (!inTemplate && pages.length - regionCount === MAX_CONTINUATION_PAGES - 1) {
+      console.warn(`[textFlow] text needs over ${MAX_CONTINUATION_PAGES} continuation pages; the rest is set on the last`);
+      pages.push(remaining);
+      break;
+    }
+
+    const fitted = inTemplate
+      ? await fit(templateName, pages.length, [...pages, remaining])
+      : await fit(CONTINUATION_TEMPLATE, 0, [remaining]);
+    let [taken, rest] = takeText(remaining, fitted, !inTemplate);
+    // A continuation page always takes something, so flowing ends; this only clips when
+    // not one word of the paragraph fits.
+    if (!inTemplate && taken.length === 0) [taken, rest] = [remaining.slice(0, 1), remaining.slice(1)];
+    pages.push(taken);
+    remaining = rest;
+  }
+  return pages;
+}
+
+// ─── Measuring (browser) ──────────────────────────────────────────────────────
+
+interface EvaluatingPage {
+  evaluate(script: string): Promise<unknown>;
+}
+
+// Evaluated in the page as a string (see preflight.ts). A paragraph fits when the last
+// line box of its text ends inside the region; for the first one that does not, the
+// number of its words that do is found by binary search over text ranges.
+const measureRegionScript = (region: number) => `((region) => {
+  const el = document.querySelector('[data-text-flow="' + region + '"]');
+  if (!el) return { paragraphs: 0, words: 0 };
+  const limit = el.getBoundingClientRect().bottom + 0.5;
+  const bottomOf = range => {
+    const rects = range.getClientRects();
+    return rects.length ? rects[rects.length - 1].bottom : -Infinity;
+  };
+  const paras = Array.from(el.querySelectorAll('p'));
+  let whole = 0;
+  for (const p of paras) {
+    const range = document.createRange();
+    range.selectNodeContents(p);
+    if (bottomOf(range) > limit) break;
+    whole++;
+  }
+  if (whole === paras.length) return { paragraphs: whole, words: 0 };
+
+  const p = paras[whole];
+  const nodes = [];
+  let text = '';
+  const walker = document.createTreeWalker(p, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    nodes.push({ node: walker.currentNode, start: text.length });
+    text += walker.currentNode.data;
+  }
+  const ends = [];
+  const re = /\\S+/g;
+  let m;
+  while ((m = re.exec(text))) ends.push(m.index + m[0].length);
+  const fits = count => {
+    const end = ends[count - 1];
+    let at = nodes[0];
+    for (const n of nodes) if (n.start < end) at = n;
+    const range = document.createRange();
+    range.setStart(p, 0);
+    range.setEnd(at.node, end - at.start);
+    return bottomOf(range) <= limit;
+  };
+  let lo = 0, hi = ends.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (fits(mid)) lo = mid; else hi = mid - 1;
+  }
+  return { paragraphs: whole, words: lo };
+})(${region})`;
+
+// Measures region `region` of a page the caller has already loaded with a text template.
+export async function measureLoadedRegion(page: EvaluatingPage, region: number): Promise<TextRegionFit> {
+  return await page.evaluate(measureRegionScript(region)) as TextRegionFit;
+}
@@ -1,6 +1,8 @@
 // src/magazine/core/types.ts — Data shapes for the magazine generation pipeline
 
 export interface ContributorData {
+  // Profile id, when the person has a profile; the colophon credits each id once
+  id?: string;
   name: string;
   city: string;
 }
@@ -8,12 +10,20 @@ export interface ContributorData {
 export interface ContentEntryData {
   title?: string;
   caption?: string;
+  // Text submissions keep their text here rather than in caption (SubmissionForm)
+  body?: string;
   media_url?: string;
   focal_x?: number;
   focal_y?: number;
   aspect_ratio?: number | null;
 }
 
+// A QR code as an SVG path of its dark modules, in module units (viewBox 0 0 size size)
+export interface QrCodeData {
+  size: number;
+  path: string;
+}
+
 export interface ContentPageData {
   page: number;
   type: string;
@@ -27,6 +37,13 @@ export interface ContentPageData {
   body_para1?: string;
   body_para2?: string;
   body_para3?: string;
+  // Paragraphs laid out on each page of a text template (see core/textFlow.ts)
+  text_pages?: string[][];
+  // Jump lines for text that runs onto continuation pages
+  continued_from?: number;
+  continues_on?: number;
+  listen_url?: string;
+  listen_qr?: QrCodeData;
 }
 
 export interface CollabEntryData extends ContentEntryData {
@@ -42,10 +59,12 @@ export interface CollabPageData {
   location?: string;
   city?: string;
   entries: CollabEntryData[];
+  // Private collabs: every member, including those with no entry on the spread
+  members?: ContributorData[];
 }
 
 export interface CommunicationMessage {
-  from: { name: string; city: string };
+  from: ContributorData;
   to: { name: string };
   date: string;
   subject?: string;
@@ -56,6 +75,9 @@ export interface CommunicationsPageData {
   page: number;
   season: string;
   messages: CommunicationMessage[];
+  // Which of the edition's communications pages this is (1-based), and how many there are
+  part?: number;
+  parts?: number;
 }
 
 export interface CampaignPageData {
@@ -89,10 +111,20 @@ export interface FrontMatterData {
   toc: TocEntry[];
 }
 
+// How someone appears in an edition: a page of their own, a collab spread, a letter on
+// the communications pages, or a campaign page
+export type CreditRole = 'contributor' | 'collaborator' | 'correspondent' | 'campaign';
+
+export interface ColophonCredits {
+  role: CreditRole;
+  people: ContributorData[];
+}
+
 export interface ColophonData {
   page: number;
   season: string;
-  contributors: ContributorData[];
+  // Non-empty roles only, in CREDIT_ROLES order (see core/colophon.ts)
+  credits: ColophonCredits[];
   printer: string;
   edition_number: number;
   edition_total: number;
@@ -125,6 +157,12 @@ export interface SelectionItemCreator {
   pageTitle: string;
   contributor: ContributorData;
   season: string;
+  listenUrl?: string;
+  // Curator's layout override (curator_creator_selections.layout); see eligibleTemplates
+  layout?: string;
+  // Text paragraphs per page: the template's own pages, then continuation pages.
+  // Set by the assembly once the text has been flowed (see core/textFlow.ts).
+  textFlow?: string[][];
 }
 
 export interface SelectionItemCollab {
@@ -136,6 +174,7 @@ export interface SelectionItemCollab {
   city?: string;
   displayText: string;
   entries: CollabEntryData[];
+  members?: ContributorData[];
   season: string;
 }
 
@@ -143,6 +182,8 @@ export interface SelectionItemCommunications {
   kind: 'communications';
   messages: CommunicationMessage[];
   season: string;
+  // Messages per page (see communicationsLayout.ts); one page of all messages if unset
+  pages?: CommunicationMessage[][];
 }
 
 export interface SelectionItemCampaign {
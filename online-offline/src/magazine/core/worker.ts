@@ -0,0 +1,79 @@
+// src/magazine/core/worker.ts — Runs one claimed magazine job end to end.
+// Progress is written back to the job row as slots render; the finished PDF is uploaded
+// to the magazines bucket and the local copy removed. Any failure — render, upload or
+// otherwise — marks the job failed with the error message rather than leaving it stuck.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { generateMagazine } from './generator';
+import {
+  MAGAZINE_BUCKET,
+  claimNextJob,
+  jobStoragePath,
+  updateJob,
+  type MagazineJob,
+} from './jobs';
+
+export interface WorkerOptions {
+  concurrency?: number;
+}
+
+export async function runJob(
+  db: SupabaseClient,
+  job: MagazineJob,
+  options: WorkerOptions = {}
+): Promise<MagazineJob['status']> {
+  const workDir = mkdtempSync(join(tmpdir(), 'magazine-job-'));
+
+  // Progress writes are chained so they land in order and never overlap; a failed
+  // write is logged but does not abort the render.
+  let progressWrite = Promise.resolve();
+  const reportProgress = (pagesRendered: number, pagesTotal: number) => {
+    progressWrite = progressWrite
+      .then(() => updateJob(db, job.id, { pages_rendered: pagesRendered, pages_total: pagesTotal }))
+      .catch(err => console.error(`[worker] Progress update failed for ${job.id}:`, err instanceof Error ? err.message : err));
+  };
+
+  try {
+    const { outputPath, pageCount } = await generateMagazine(job.curator_id, job.period_id, {
+      output: job.output_mode,
+      concurrency: options.concurrency,
+      outputDir: workDir,
+      onProgress: ({ pagesRendered, pagesTotal }) => reportProgress(pagesRendered, pagesTotal),
+    });
+    await progressWrite;
+
+    const storagePath = jobStoragePath(job);
+    const { error: uploadErr } = await db.storage
+      .from(MAGAZINE_BUCKET)
+      .upload(storagePath, readFileSync(outputPath), { contentType: 'application/pdf', upsert: true });
+    if (uploadErr) throw new Error(`PDF upload failed: ${uploadErr.message}`);
+
+    await updateJob(db, job.id, {
+      status: 'assembled', page_count: pageCount, storage_path: storagePath,
+      finished_at: new Date().toISOString(),
+    });
+    console.log(`[worker] Job ${job.id} assembled: ${pageCount} pages → ${MAGAZINE_BUCKET}/${storagePath}`);
+    return 'assembled';
+  } catch (err) {
+    await progressWrite;
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[worker] Job ${job.id} failed: ${message}`);
+    await updateJob(db, job.id, { status: 'failed', error: message, finished_at: new Date().toISOString() });
+    return 'failed';
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// Claims and runs the next job. Returns false when the queue is empty.
+export async function runNextJob(db: SupabaseClient, options: WorkerOptions = {}): Promise<boolean> {
+  const job = await claimNextJob(db);
+  if (!job) return false;
+  console.log(`[worker] Claimed job ${job.id} (curator ${job.curator_id}, period ${job.period_id})`);
+  await runJob(db, job, options);
+  return true;
+}
@@ -0,0 +1,437 @@
+// src/magazine/fixtures/templateFixtures.ts — Representative data for every magazine
+// template, plus the edge cases templates are most likely to get wrong: very long names
+// and titles, the most images a template takes, empty captions, non-Latin text. Used by
+// the visual regression suite (tests/magazine/templates.visual.spec.ts), which renders
+// each fixture and compares it with a golden image, and by the template playground
+// (/admin/templates).
+// Images point at FIXTURE_MEDIA_ORIGIN, which never resolves: whatever renders a fixture
+// serves those URLs itself from fixtureMediaSvg, or inlines them (inlineFixtureMedia),
+// so fixtures need no network and draw the same every time.
+
+import { encodeQr } from '../core/qr';
+import type { TemplateName } from '../core/templateBundle';
+import type {
+  CampaignPageData,
+  CollabEntryData,
+  CollabPageData,
+  ColophonData,
+  CommunicationMessage,
+  CommunicationsPageData,
+  ContentEntryData,
+  ContentPageData,
+  ContributorData,
+  CoverData,
+  FrontMatterData,
+  TemplateData,
+} from '../core/types';
+
+export interface TemplateFixture {
+  // Unique; names the golden image
+  id: string;
+  templateName: TemplateName;
+  description: string;
+  data: TemplateData | Record<string, unknown>;
+}
+
+// ─── Media ────────────────────────────────────────────────────────────────────
+
+export const FIXTURE_MEDIA_ORIGIN = 'https://fixtures.online-offline.test';
+
+const PALETTES = [
+  ['#3b4a52', '#c8b89a', '#a0522d'],
+  ['#2e2a20', '#d8cfc0', '#6b7f5e'],
+  ['#51423a', '#e8dccb', '#b5863b'],
+  ['#1e2428', '#9fb3bd', '#c05a3c'],
+];
+
+// An image at FIXTURE_MEDIA_ORIGIN; width and height set its aspect ratio
+export function fixtureMediaUrl(name: string, width = 1200, height = 1600): string {
+  return `${FIXTURE_MEDIA_ORIGIN}/${name}-${width}x${height}.svg`;
+}
+
+// The SVG served for a fixture image URL: a gradient with a few shapes, chosen by name,
+// so every image is distinct and its crop and focal point are visible.
+export function fixtureMediaSvg(url: string): string {
+  const match = /\/([a-z0-9-]+?)-(\d+)x(\d+)\.svg$/.exec(url);
+  const [, name = 'image', w = '1200', h = '1600'] = match ?? [];
+  const seed = [...name].reduce((n, ch) => (n * 31 + ch.charCodeAt(0)) >>> 0, 7);
+  const [ground, light, accent] = PALETTES[seed % PALETTES.length];
+  const width = Number(w);
+  const height = Number(h);
+  const r = Math.min(width, height) * (0.18 + (seed % 5) * 0.03);
+  const cx = width * (0.3 + (seed % 7) * 0.06);
+  const cy = height * (0.35 + (seed % 3) * 0.1);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="0" y2="1">
+    <stop offset="0" stop-color="${light}"/><stop offset="1" stop-color="${ground}"/>
+  </linearGradient></defs>
+  <rect width="${width}" height="${height}" fill="url(#g)"/>
+  <rect y="${height * 0.68}" width="${width}" height="${height * 0.32}" fill="${ground}" opacity="0.6"/>
+  <circle cx="${cx}" cy="${cy}" r="${r}" fill="${accent}"/>
+  <line x1="${width / 2}" y1="0" x2="${width / 2}" y2="${height}" stroke="${light}" stroke-width="${width / 300}" opacity="0.5"/>
+</svg>`;
+}
+
+// The data with every fixture image as a data: URL, for renderers that cannot serve
+// FIXTURE_MEDIA_ORIGIN themselves (the playground's iframes). Other values are untouched.
+export function inlineFixtureMedia<T>(data: T): T {
+  if (typeof data === 'string') {
+    return (data.startsWith(`${FIXTURE_MEDIA_ORIGIN}/`)
+      ? `data:image/svg+xml,${encodeURIComponent(fixtureMediaSvg(data))}`
+      : data) as T;
+  }
+  if (Array.isArray(data)) return data.map(inlineFixtureMedia) as T;
+  if (data && typeof data === 'object') {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, inlineFixtureMedia(value)])) as T;
+  }
+  return data;
+}
+
+// ─── Building Blocks ──────────────────────────────────────────────────────────
+
+const SEASON = 'Spring 2026';
+
+const PEOPLE: ContributorData[] = [
+  { name: 'Ana Ferreira', city: 'Lisbon' },
+  { name: 'Kwame Osei', city: 'Accra' },
+  { name: 'Lili Varga', city: 'Budapest' },
+  { name: 'Ravi Patel', city: 'Mumbai' },
+  { name: 'Sophie Müller', city: 'Berlin' },
+  { name: 'Takeshi Nakamura', city: 'Osaka' },
+  { name: 'Inés Robles', city: 'Oaxaca' },
+  { name: 'Mara Lindqvist', city: 'Umeå' },
+];
+
+const LONG_NAME: ContributorData = {
+  name: 'Maximiliana Alexandra Wolkenstein-Featherstonehaugh',
+  city: 'Llanfairpwllgwyngyll-gogerychwyrndrobwllllantysiliogogogoch',
+};
+
+const NON_LATIN: ContributorData[] = [
+  { name: '中村 健', city: '大阪' },
+  { name: 'Αλεξάνδρα Παπαδοπούλου', city: 'Θεσσαλονίκη' },
+  { name: 'Дмитрий Соколов', city: 'Новосибирск' },
+];
+
+const CAPTIONS = [
+  'First light on the estuary. The tide had gone out overnight and left the boats leaning on their keels.',
+  'The market before it opens: crates stacked, awnings still rolled, one vendor sweeping.',
+  'Afternoon in the reading room. Nobody spoke for three hours.',
+  'A stairwell painted the same green since 1962.',
+  'Laundry across the courtyard, counted from the fourth floor.',
+  'The last ferry, half empty, lights already on.',
+  'Dust on the piano keys; the tuner comes on Thursdays.',
+  'Rain on the bus shelter roof, recorded as a photograph.',
+];
+
+const ESSAY_PARAGRAPHS = [
+  'The house on the hill has been empty for eleven years, and in that time it has become a kind of weather. People in the village speak of it the way they speak of the wind off the sea: as something that happens to them rather than something they could change.',
+  'I went up on a Tuesday because Tuesdays are when nothing happens. The gate was held shut with wire, the wire had rusted through, and the gate swung open the moment I touched it, as if it had been waiting for someone to ask.',
+  'Inside, the light was brown and patient. A calendar on the kitchen wall still showed March. Someone had written a name in the square for the fourteenth, then crossed it out, then written it again more carefully underneath.',
+  'I do not know whose name it was. I have decided not to find out. Some rooms ought to keep their own counsel, and the least a visitor can do is leave them as they were found, with the door pulled to and the wire twisted back around the gate.',
+  'On the walk down, the village looked smaller than it had that morning. That is what the house does, I think: it lends you a little of its distance, so that for an hour or two everything you know looks like something you are remembering.',
+];
+
+const JAPANESE_PARAGRAPHS = [
+  '朝の市場はまだ静かで、魚の箱が積み上げられ、誰かがホースで床を洗っていた。私はその音を聞きながら、祖母がよく言っていた言葉を思い出した。',
+  '「急がなくていい。海はどこにも行かない。」彼女はそう言って、毎朝同じ時間に同じ道を歩いた。その道は今も変わらず、港へと続いている。',
+];
+
+const POEM = 'The gate opens once.\nNo one remembers\nwho left it ajar.\n\nMorning, the second crossing.\nThe water has opinions\nabout where it goes.\n\nBy the third gate\neven the light\nhas learned to wait.';
+
+const LONG_POEM = Array.from({ length: 8 }, (_, i) =>
+  `Stanza ${i + 1}, the harbour again,\nthe cranes asleep above the water,\na gull arguing with the wind,\nand the bell that no one rings.`
+).join('\n\n');
+
+const GREEK_POEM = 'Στο λιμάνι το πρωί\nοι βάρκες κοιμούνται ακόμα.\n\nΤο φως έρχεται αργά,\nσαν κάποιος που ξέρει το δρόμο.';
+
+function words(paragraphs: string[]): number {
+  return paragraphs.join(' ').split(/\s+/).filter(Boolean).length;
+}
+
+function imageEntries(count: number, prefix: string, captions: (i: number) => string | undefined = i => CAPTIONS[i % CAPTIONS.length]): ContentEntryData[] {
+  return Array.from({ length: count }, (_, i) => ({
+    title: `Plate ${i + 1}`,
+    caption: captions(i),
+    media_url: fixtureMediaUrl(`${prefix}-${i + 1}`, i % 2 ? 1600 : 1200, i % 2 ? 1200 : 1600),
+    focal_x: 50,
+    focal_y: 50,
+    aspect_ratio: i % 2 ? 4 / 3 : 3 / 4,
+  }));
+}
+
+function contentPage(templateType: string, overrides: Partial<ContentPageData>): ContentPageData {
+  return {
+    page: 4,
+    type: templateType,
+    page_title: 'Low Tide',
+    season: SEASON,
+    contributor: PEOPLE[0],
+    entries: [],
+    ...overrides,
+  };
+}
+
+function collabEntries(count: number, people: ContributorData[], captions = true): CollabEntryData[] {
+  return Array.from({ length: count }, (_, i) => ({
+    title: `Entry ${i + 1}`,
+    caption: captions ? CAPTIONS[i % CAPTIONS.length] : undefined,
+    media_url: fixtureMediaUrl(`collab-${i + 1}`, 1200, 1200),
+    focal_x: 50,
+    focal_y: 50,
+    contributor: people[i % people.length],
+  }));
+}
+
+function collabPage(mode: string, overrides: Partial<CollabPageData>): CollabPageData {
+  return {
+    page: 10,
+    collab_title: 'The Interior',
+    mode,
+    season: SEASON,
+    display_text: 'A group working with the theme of interior spaces — rooms, thresholds, the architecture of private life. Each contributor worked independently and submitted without seeing the others.',
+    entries: collabEntries(6, PEOPLE),
+    ...overrides,
+  };
+}
+
+function message(from: ContributorData, subject: string | undefined, body: string): CommunicationMessage {
+  return { from, to: { name: 'Lena Vasquez' }, date: '14 Mar 2026', subject, body };
+}
+
+const MESSAGES: CommunicationMessage[] = [
+  message(PEOPLE[0], 'From the estuary', 'The tide tables you sent were right to the minute. I stood on the slipway and watched the water arrive exactly when the paper said it would.'),
+  message(PEOPLE[1], 'Re: the green stairwell', 'I went back with a better lens. The paint is not one green but four, layered where the handrail wears through.'),
+  message(PEOPLE[2], undefined, 'No subject this time — only to say the prints arrived, and that my neighbour has asked to borrow the one of the courtyard.'),
+  message(PEOPLE[3], 'Notes from the monsoon', 'Everything here is damp and everything is loud. I have started recording the rain on different roofs; tin is the most honest.\n\nMore soon, when the drives dry out.'),
+];
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const cover: CoverData = { page: 1, season: SEASON, volume: 'I', issue: 1 };
+
+const frontMatter: FrontMatterData = {
+  page: 3,
+  curator: { name: 'Lena Vasquez', city: 'Pensacola' },
+  season: SEASON,
+  toc: [
+    { page: 4, contributor: PEOPLE[0].name, type: 'Photography', title: 'Low Tide' },
+    { page: 6, contributor: PEOPLE[1].name, type: 'Essay', title: 'The House on the Hill' },
+    { page: 7, contributor: PEOPLE[2].name, type: 'Poetry', title: 'Three Gates' },
+    { page: 8, contributor: PEOPLE[3].name, type: 'Art', title: 'Surfaces' },
+    { page: 10, contributor: PEOPLE[4].name, type: 'Music', title: 'Westhafen Mornings' },
+  ],
+};
+
+const colophon: ColophonData = {
+  page: 16,
+  season: SEASON,
+  credits: [
+    { role: 'contributor', people: PEOPLE.slice(0, 5) },
+    { role: 'collaborator', people: PEOPLE.slice(5) },
+    { role: 'correspondent', people: [PEOPLE[1], NON_LATIN[0]] },
+    { role: 'campaign', people: [{ name: 'Field Notes Press', city: '' }] },
+  ],
+  printer: 'Magcloud',
+  edition_number: 3,
+  edition_total: 12,
+};
+
+const campaign: CampaignPageData = {
+  page: 15,
+  campaign_name: 'Field Notes Press',
+  tagline: 'Small books, carefully made.',
+  discount: 2,
+  avatar_url: fixtureMediaUrl('campaign', 1580, 2108),
+};
+
+const communications: CommunicationsPageData = { page: 12, season: SEASON, messages: MESSAGES };
+
+export const TEMPLATE_FIXTURES: TemplateFixture[] = [
+  // Structure
+  { id: 'cover', templateName: 'CoverA', description: 'Cover, volume I issue 1', data: cover },
+  { id: 'front-matter', templateName: 'FrontMatter', description: 'Contents with five pieces', data: frontMatter },
+  {
+    id: 'front-matter-long', templateName: 'FrontMatter',
+    description: 'Contents crowded with long names and titles',
+    data: {
+      ...frontMatter,
+      curator: LONG_NAME,
+      toc: Array.from({ length: 16 }, (_, i) => ({
+        page: 4 + i * 2,
+        contributor: i % 4 === 0 ? LONG_NAME.name : PEOPLE[i % PEOPLE.length].name,
+        type: i % 3 === 0 ? 'Collaboration · Community' : 'Photography',
+        title: i % 5 === 0 ? 'An Inventory of Everything Left Behind in the House on the Hill' : `Piece ${i + 1}`,
+      })),
+    } satisfies FrontMatterData,
+  },
+  { id: 'colophon', templateName: 'ColophonPage', description: 'Credits in every role', data: colophon },
+  {
+    id: 'colophon-dense', templateName: 'ColophonPage', description: 'Enough credits to set them small',
+    data: {
+      ...colophon,
+      credits: [
+        { role: 'contributor', people: Array.from({ length: 20 }, (_, i) => PEOPLE[i % PEOPLE.length]) },
+        { role: 'collaborator', people: [LONG_NAME, ...NON_LATIN, ...PEOPLE] },
+        { role: 'correspondent', people: PEOPLE.slice(0, 6) },
+      ],
+    } satisfies ColophonData,
+  },
+  { id: 'blank', templateName: 'BlankPage', description: 'Filler page', data: { season: SEASON } },
+
+  // Photography and art
+  {
+    id: 'single-photo', templateName: 'SinglePhoto', description: 'One image',
+    data: contentPage('photography', { entries: imageEntries(1, 'single') }),
+  },
+  {
+    id: 'spread-panorama', templateName: 'SpreadPanorama', description: 'One image across the spread',
+    data: contentPage('photography', { entries: imageEntries(1, 'panorama', () => 'Short caption.') }),
+  },
+  {
+    id: 'spread', templateName: 'Spread', description: 'One image with a long caption',
+    data: contentPage('photography', {
+      entries: imageEntries(1, 'spread', () => ESSAY_PARAGRAPHS.slice(0, 2).join(' ')),
+    }),
+  },
+  {
+    id: 'spread2', templateName: 'Spread2', description: 'Two images',
+    data: contentPage('photography', { entries: imageEntries(2, 'spread2') }),
+  },
+  {
+    id: 'spread4', templateName: 'Spread4', description: 'Four images',
+    data: contentPage('art', { entries: imageEntries(4, 'spread4'), contributor: PEOPLE[3], page_title: 'Surfaces' }),
+  },
+  {
+    id: 'spread4-empty-captions', templateName: 'Spread4', description: 'Four images, no captions',
+    data: contentPage('art', { entries: imageEntries(4, 'spread4', () => undefined), page_title: 'Surfaces' }),
+  },
+  {
+    id: 'spread-mosaic', templateName: 'SpreadMosaic', description: 'Six images',
+    data: contentPage('photography', { entries: imageEntries(6, 'mosaic') }),
+  },
+  {
+    id: 'spread6-eight-images', templateName: 'Spread6', description: 'Eight images, the most a submission has',
+    data: contentPage('photography', { entries: imageEntries(8, 'spread6') }),
+  },
+  {
+    id: 'spread2-long-name', templateName: 'Spread2', description: 'Very long contributor name, city and title',
+    data: contentPage('photography', {
+      entries: imageEntries(2, 'spread2-long'),
+      contributor: LONG_NAME,
+      page_title: 'An Inventory of Everything Left Behind in the House on the Hill, Counted Twice',
+    }),
+  },
+  {
+    id: 'spread2-non-latin', templateName: 'Spread2', description: 'Japanese name, title and captions',
+    data: contentPage('photography', {
+      entries: imageEntries(2, 'spread2-ja', i => JAPANESE_PARAGRAPHS[i % JAPANESE_PARAGRAPHS.length]),
+      contributor: NON_LATIN[0],
+      page_title: '朝の市場',
+    }),
+  },
+
+  // Text
+  {
+    id: 'text-submission', templateName: 'TextSubmission', description: 'Essay that fits one page',
+    data: contentPage('essay', {
+      page_title: 'The House on the Hill', contributor: PEOPLE[1],
+      body: ESSAY_PARAGRAPHS.slice(0, 3).join('\n\n'), word_count: words(ESSAY_PARAGRAPHS.slice(0, 3)),
+      pull_quote: 'Some rooms ought to keep their own counsel.',
+      text_pages: [ESSAY_PARAGRAPHS.slice(0, 3)],
+    }),
+  },
+  {
+    id: 'text-submission-continues', templateName: 'TextSubmission', description: 'Essay that runs on to a continuation page',
+    data: contentPage('essay', {
+      page_title: 'The House on the Hill', contributor: PEOPLE[1],
+      body: ESSAY_PARAGRAPHS.join('\n\n'), word_count: words(ESSAY_PARAGRAPHS),
+      text_pages: [ESSAY_PARAGRAPHS.slice(0, 4)],
+      continues_on: 5,
+    }),
+  },
+  {
+    id: 'text-submission-non-latin', templateName: 'TextSubmission', description: 'Japanese essay',
+    data: contentPage('essay', {
+      page_title: '海はどこにも行かない', contributor: NON_LATIN[0],
+      body: JAPANESE_PARAGRAPHS.join('\n\n'), word_count: 2,
+      text_pages: [JAPANESE_PARAGRAPHS],
+    }),
+  },
+  {
+    id: 'text-spread', templateName: 'TextSpread', description: 'Essay over two pages',
+    data: contentPage('essay', {
+      page_title: 'The House on the Hill', contributor: PEOPLE[1],
+      body: ESSAY_PARAGRAPHS.join('\n\n'), word_count: words(ESSAY_PARAGRAPHS),
+      text_pages: [ESSAY_PARAGRAPHS.slice(0, 3), ESSAY_PARAGRAPHS.slice(3)],
+    }),
+  },
+  {
+    id: 'text-continuation', templateName: 'TextContinuation', description: 'The end of a long essay',
+    data: contentPage('essay', {
+      page: 5, page_title: 'The House on the Hill', contributor: PEOPLE[1],
+      text_pages: [ESSAY_PARAGRAPHS.slice(4)],
+      continued_from: 4,
+    }),
+  },
+  {
+    id: 'poetry', templateName: 'PoetryPage', description: 'Short poem, one column',
+    data: contentPage('poetry', { page_title: 'Three Gates', contributor: PEOPLE[2], body: POEM, word_count: 36 }),
+  },
+  {
+    id: 'poetry-long', templateName: 'PoetryPage', description: 'Long poem set in two columns',
+    data: contentPage('poetry', { page_title: 'Harbour, Eight Times', contributor: PEOPLE[5], body: LONG_POEM, word_count: 200 }),
+  },
+  {
+    id: 'poetry-non-latin', templateName: 'PoetryPage', description: 'Greek poem',
+    data: contentPage('poetry', { page_title: 'Λιμάνι', contributor: NON_LATIN[1], body: GREEK_POEM, word_count: 18 }),
+  },
+
+  // Music
+  {
+    id: 'music', templateName: 'MusicPage', description: 'Track with a listen link and QR code',
+    data: contentPage('music', {
+      page_title: 'Westhafen Mornings', contributor: PEOPLE[4],
+      entries: imageEntries(1, 'music', () => 'Field recordings made at Westhafen over three consecutive mornings.'),
+      listen_url: 'https://onlineoffline.fm/s.muller',
+      listen_qr: encodeQr('https://onlineoffline.fm/s.muller'),
+    }),
+  },
+
+  // Collabs
+  {
+    id: 'collab-community', templateName: 'CollabSpreadCommunity', description: 'Six community entries',
+    data: collabPage('community', {}),
+  },
+  {
+    id: 'collab-local', templateName: 'CollabSpreadLocal', description: 'Local entries from one city',
+    data: collabPage('local', { location: 'Berlin', city: 'Berlin' }),
+  },
+  {
+    id: 'collab-private', templateName: 'CollabSpreadPrivate', description: 'Private collab, a member without an entry',
+    data: collabPage('private', { entries: collabEntries(4, PEOPLE), members: PEOPLE.slice(0, 5) }),
+  },
+  {
+    id: 'collab-community-edge', templateName: 'CollabSpreadCommunity',
+    description: 'Long and non-Latin names, no captions',
+    data: collabPage('community', {
+      collab_title: 'Everything We Carried Across the River That Winter',
+      entries: collabEntries(6, [LONG_NAME, ...NON_LATIN], false),
+    }),
+  },
+
+  // Communications and campaigns
+  { id: 'communications', templateName: 'CommunicationsPage', description: 'Four dispatches', data: communications },
+  {
+    id: 'communications-continued', templateName: 'CommunicationsPage', description: 'Second of two pages, long sender names',
+    data: {
+      ...communications, page: 13, part: 2, parts: 2,
+      messages: [message(LONG_NAME, 'A very long subject line that will need to wrap onto a second line in the card', ESSAY_PARAGRAPHS[0]), message(NON_LATIN[2], 'Из Новосибирска', 'Снег выпал ночью, и город стал тихим.')],
+    } satisfies CommunicationsPageData,
+  },
+  { id: 'campaign', templateName: 'CampaignPage', description: 'Full-bleed advertiser image', data: campaign },
+  {
+    id: 'campaign-no-image', templateName: 'CampaignPage', description: 'Campaign without an image',
+    data: { ...campaign, avatar_url: undefined } satisfies CampaignPageData,
+  },
+];
@@ -2,17 +2,21 @@
 // Maps template names to components for use by the generation pipeline.
 // Import this file in the generation pipeline to access all templates.
 
-// NOTE: These are browser-standalone JSX files loaded via script tags in the preview HTML.
-// When the generation pipeline is built (Puppeteer/Node), these will be
-// refactored into proper ES module React components. This index serves as
-// the canonical reference for what templates exist and what they are called.
+// NOTE: These are browser-standalone JSX files (no imports; each publishes its
+// components via Object.assign(window, …)). scripts/build-magazine-templates.ts
+// compiles them, with core/primitives.jsx, into the template bundle the pipeline
+// and admin preview load — run `npm run build:templates` after editing. Per-issue
+// sets (templates/<set>/set.json) are built on top of these files.
+// The file each template lives in is declared in core/templateBundle.ts
+// (TEMPLATE_FILE_MAP). This index serves as the canonical reference for what
+// templates exist and what they are called.
 
 // ─── ACTIVE TEMPLATES ────────────────────────────────────────────────────────
 
 // Structure
 // CoverA            — front cover, typographic
 // FrontMatter       — page 2, curator attribution + table of contents
-// ColophonPage      — back matter, contributor credits + print info
+// ColophonPage      — back matter, credits by role + print info
 
 // Visual spreads (Photography / Art)
 // SpreadPanorama    — 1 image, full bleed both pages, minimal caption band
@@ -24,7 +28,8 @@
 
 // Text submissions
 // TextSubmission    — single page essay/short text (≤500 words)
-// TextSpread        — two page essay (501–1800 words, truncated above 1800)
+// TextSpread        — two page essay (over 500 words)
+// TextContinuation  — single page, the rest of an essay that outgrew its template
 // PoetryPage        — single page poetry, narrow centered column, stanza breaks
 
 // Music
@@ -36,7 +41,7 @@
 // CollabSpreadPrivate    — two page, invite-only collab, fully dark
 
 // Communications + Campaigns
-// CommunicationsPage — single page, 2-column message card grid
+// CommunicationsPage — single page, 2-column message cards; runs on in pairs of pages
 // CampaignPage       — single page, full-bleed ad with price reduction hero
 
 // ─── DEPRECATED (retained for reference, not used in generation pipeline) ────
@@ -61,8 +66,8 @@
 //
 // Essay:
 //   ≤500 words                  → TextSubmission
-//   501–1800 words              → TextSpread
-//   >1800 words                 → TextSpread (truncated)
+//   >500 words                  → TextSpread
+//   (text that does not fit flows on to TextContinuation pages)
 //
 // Poetry (auto-detected):        → PoetryPage
 // Music:                         → MusicPage
@@ -72,5 +77,5 @@
 //   mode === 'local'             → CollabSpreadLocal
 //   mode === 'private'           → CollabSpreadPrivate
 //
-// Communications:                → CommunicationsPage (one shared page)
+// Communications:                → CommunicationsPage (one page, or pairs when they run on)
 // Campaigns:                     → CampaignPage (one page per campaign)
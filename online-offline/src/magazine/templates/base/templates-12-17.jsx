@@ -1,4 +1,4 @@
-// templates-12-17.jsx — Spread2, Spread4, Spread6, TextSpread, MusicPage, ColophonPage
+// templates-12-17.jsx — Spread2, Spread4, Spread6, TextSpread, TextContinuation, MusicPage, ColophonPage
 
 // ─── 12. SPREAD 2 ─────────────────────────────────────────────────────────────
 // Two-page spread for contributors who submitted exactly 2 images.
@@ -430,6 +430,10 @@ function TextSpread({ data={}, showAnnotations=false }) {
   const body3 = data.body_para3 || 'There is a discipline in waiting for the right light. Most people mistake it for patience. It is closer to a form of grief: the acceptance that what you are waiting for may not come, and that you will wait anyway, because the waiting itself has become the practice.';
   const body4 = data.body_para4 || 'She had been standing at the window for some time. The city below had not yet decided what kind of morning it would be. The fog held everything in suspension — the traffic, the noise, even the light itself seemed unsure of where to land.';
   const body5 = data.body_para5 || 'The archive, when she finally opened it, contained more than she remembered. More frames, more moments, more of the slow accumulation of attention that constitutes a practice. She sat with it for a long time before she understood what she was looking at.';
+  // Assembled text arrives flowed: text_pages[0] on the left, [1] on the right, and any
+  // remainder on TextContinuation pages.
+  const flowing = Array.isArray(data.text_pages);
+  const textPages = data.text_pages || [];
 
   return (
     <div style={{ width: spreadW, height: AH, position: 'relative', overflow: 'hidden', display: 'flex' }}>
@@ -443,7 +447,10 @@ function TextSpread({ data={}, showAnnotations=false }) {
           issue={data.season || 'Spring 2026'}
         />
 
-        <div style={{ position: 'absolute', top: BLEED + MT, left: BLEED + ML, right: BLEED + MR }}>
+        <div style={{
+          position: 'absolute', top: BLEED + MT, left: BLEED + ML, right: BLEED + MR,
+          ...(flowing ? { bottom: BLEED + MB + 12, display: 'flex', flexDirection: 'column' } : {}),
+        }}>
 
           <DoubleRule/>
 
@@ -482,7 +489,10 @@ function TextSpread({ data={}, showAnnotations=false }) {
             </span>
           </div>
 
-          <div style={{ fontFamily: F.serif, fontSize: 12.5, lineHeight: 1.88, color: C.ground }}>
+          {flowing && <FlowText paragraphs={textPages[0] || []} region={0} dropCap/>}
+          {flowing && <JumpLine/>}
+
+          {!flowing && <div style={{ fontFamily: F.serif, fontSize: 12.5, lineHeight: 1.88, color: C.ground }}>
             <p style={{ margin: 0, marginBottom: 10 }}>
               <span style={{
                 float: 'left', fontSize: 70, lineHeight: 0.78, fontFamily: F.serif,
@@ -493,7 +503,7 @@ function TextSpread({ data={}, showAnnotations=false }) {
               {body1.slice(1)}
             </p>
             <p style={{ margin: 0, clear: 'both' }}>{body2}</p>
-          </div>
+          </div>}
 
           {showAnnotations && (
             <>
@@ -532,10 +542,20 @@ function TextSpread({ data={}, showAnnotations=false }) {
         <div style={{
           position: 'absolute', top: BLEED + MT, left: BLEED + ML, right: BLEED + MR,
           fontFamily: F.serif, fontSize: 12.5, lineHeight: 1.88, color: C.ground,
+          ...(flowing ? { bottom: BLEED + MB + 12, display: 'flex', flexDirection: 'column' } : {}),
         }}>
-          <p style={{ margin: 0, marginBottom: 10 }}>{body3}</p>
-          <p style={{ margin: 0, marginBottom: 10 }}>{body4}</p>
-          <p style={{ margin: 0 }}>{body5}</p>
+          {flowing ? (
+            <>
+              <FlowText paragraphs={textPages[1] || []} region={1}/>
+              <JumpLine page={data.continues_on}/>
+            </>
+          ) : (
+            <>
+              <p style={{ margin: 0, marginBottom: 10 }}>{body3}</p>
+              <p style={{ margin: 0, marginBottom: 10 }}>{body4}</p>
+              <p style={{ margin: 0 }}>{body5}</p>
+            </>
+          )}
 
           {showAnnotations && (
             <>
@@ -559,14 +579,76 @@ function TextSpread({ data={}, showAnnotations=false }) {
   );
 }
 
+// ─── 15b. TEXT CONTINUATION ───────────────────────────────────────────────────
+// Single paper page carrying the rest of an essay that outgrew its template.
+// Running head (title, contributor, "continued from") over a full page of body text.
+function TextContinuation({ data={}, showAnnotations=false }) {
+  const contributor = data.contributor || { name: 'T. Nakamura', city: 'Osaka' };
+  const paragraphs = (data.text_pages || [])[0] || [
+    'The archive, when she finally opened it, contained more than she remembered. More frames, more moments, more of the slow accumulation of attention that constitutes a practice. She sat with it for a long time before she understood what she was looking at.',
+    'There is a discipline in waiting for the right light. Most people mistake it for patience. It is closer to a form of grief: the acceptance that what you are waiting for may not come, and that you will wait anyway, because the waiting itself has become the practice.',
+  ];
+
+  return (
+    <div style={{ width: AW, height: AH, background: C.paper, position: 'relative', overflow: 'hidden' }}>
+      <VerticalContributorLabel
+        name={contributor.name || 'Contributor Name'}
+        type={data.type || 'Essay'}
+        issue={data.season || 'Spring 2026'}
+      />
+
+      <div style={{
+        position: 'absolute', top: BLEED + MT, left: BLEED + ML, right: BLEED + MR, bottom: BLEED + MB + 12,
+        display: 'flex', flexDirection: 'column',
+      }}>
+        <DoubleRule/>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 16, marginTop: 8, marginBottom: 18 }}>
+          <span style={{ fontFamily: F.serif, fontStyle: 'italic', fontSize: 16, color: C.ground, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {data.page_title || 'The Long Exposure'}
+          </span>
+          <span style={{ fontFamily: F.mono, fontSize: 8, color: C.paper4, letterSpacing: '0.10em', textTransform: 'uppercase', flexShrink: 0 }}>
+            {contributor.name || 'Contributor Name'} · continued from p.{data.continued_from || (data.page || 28) - 1}
+          </span>
+        </div>
+
+        <FlowText paragraphs={paragraphs} region={0}/>
+        <JumpLine page={data.continues_on}/>
+
+        {showAnnotations && (
+          <>
+            <Annotation label="page_title / continued_from" style={{ top: 8, left: 0 }}/>
+            <Annotation label="text_pages[0]" style={{ top: 48, left: 0 }}/>
+          </>
+        )}
+      </div>
+
+      <div style={{ position: 'absolute', bottom: BLEED + MB - 14, left: BLEED + ML, right: BLEED + MR, display: 'flex', justifyContent: 'space-between' }}>
+        <Folio page={data.page || 28} side="left" season={data.season || 'Spring 2026'}/>
+        <Folio page={data.page || 28} side="right" season={data.season || 'Spring 2026'}/>
+      </div>
+
+      <RegistrationMark side="left"/>
+      <RegistrationMark side="right"/>
+      <BleedMarks dark={true}/>
+      <GrainOverlay/>
+    </div>
+  );
+}
+
 // ─── 16. MUSIC PAGE ───────────────────────────────────────────────────────────
 // Single page for music submissions. Dark background.
-// Left zone: large display text + contributor info. Right zone: QR placeholder + scan prompt.
+// Left zone: large display text + contributor info. Right zone: QR code + scan prompt.
+// data.listen_qr (built by the generator from listen_url) is printed dark-on-paper with a
+// quiet zone so phone cameras read it reliably; without it a decorative placeholder shows.
 function MusicPage({ data={}, showAnnotations=false }) {
   const contributor = data.contributor || { name: 'S. Müller', city: 'Berlin' };
   const entry = (data.entries || [{}])[0] || {};
   const caption = entry.caption || 'Field recordings made at Westhafen over three consecutive mornings. The container ships were loading. This is what the water sounded like before the city woke up.';
-  const listenUrl = data.listen_url || 'onlineoffline.fm/s.muller';
+  const listenUrl = data.listen_url
+    ? data.listen_url.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/$/, '')
+    : 'onlineoffline.fm/s.muller';
+  const qr = data.listen_qr;
+  const QR_QUIET = 4; // modules of clear margin required around a QR code
   const divX = Math.floor(AW * 0.55);
 
   const qrSize = 120;
@@ -665,32 +747,40 @@ function MusicPage({ data={}, showAnnotations=false }) {
         display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center',
         gap: 12, zIndex: 2, paddingRight: BLEED + MR,
       }}>
-        <div style={{ width: qrSize, height: qrSize, background: C.ground3, padding: 8, boxSizing: 'border-box', position: 'relative' }}>
-          <svg width={qrSize - 16} height={qrSize - 16} viewBox={`0 0 ${qrSize} ${qrSize}`} style={{ display: 'block' }}>
-            {finderPattern(0, 0)}
-            {finderPattern(14, 0)}
-            {finderPattern(0, 14)}
-            {dataBits.map(([x, y], i) => (
-              <rect key={i} x={x * moduleSize} y={y * moduleSize} width={moduleSize - 0.5} height={moduleSize - 0.5} fill={C.paper}/>
-            ))}
-            {[8,10,12].map(i => (
-              <rect key={`th-${i}`} x={i * moduleSize} y={6 * moduleSize} width={moduleSize - 0.5} height={moduleSize - 0.5} fill={C.paper}/>
-            ))}
-            {[8,10,12].map(i => (
-              <rect key={`tv-${i}`} x={6 * moduleSize} y={i * moduleSize} width={moduleSize - 0.5} height={moduleSize - 0.5} fill={C.paper}/>
-            ))}
+        {qr ? (
+          <svg width={qrSize} height={qrSize} viewBox={`${-QR_QUIET} ${-QR_QUIET} ${qr.size + QR_QUIET * 2} ${qr.size + QR_QUIET * 2}`}
+            shapeRendering="crispEdges" style={{ display: 'block' }}>
+            <rect x={-QR_QUIET} y={-QR_QUIET} width={qr.size + QR_QUIET * 2} height={qr.size + QR_QUIET * 2} fill={C.paper}/>
+            <path d={qr.path} fill={C.ground}/>
           </svg>
-        </div>
+        ) : (
+          <div style={{ width: qrSize, height: qrSize, background: C.ground3, padding: 8, boxSizing: 'border-box', position: 'relative' }}>
+            <svg width={qrSize - 16} height={qrSize - 16} viewBox={`0 0 ${qrSize} ${qrSize}`} style={{ display: 'block' }}>
+              {finderPattern(0, 0)}
+              {finderPattern(14, 0)}
+              {finderPattern(0, 14)}
+              {dataBits.map(([x, y], i) => (
+                <rect key={i} x={x * moduleSize} y={y * moduleSize} width={moduleSize - 0.5} height={moduleSize - 0.5} fill={C.paper}/>
+              ))}
+              {[8,10,12].map(i => (
+                <rect key={`th-${i}`} x={i * moduleSize} y={6 * moduleSize} width={moduleSize - 0.5} height={moduleSize - 0.5} fill={C.paper}/>
+              ))}
+              {[8,10,12].map(i => (
+                <rect key={`tv-${i}`} x={6 * moduleSize} y={i * moduleSize} width={moduleSize - 0.5} height={moduleSize - 0.5} fill={C.paper}/>
+              ))}
+            </svg>
+          </div>
+        )}
 
         <div style={{ fontFamily: F.mono, fontSize: 8, color: C.paper4, textTransform: 'uppercase', letterSpacing: '0.14em', textAlign: 'center' }}>
           Scan to listen
         </div>
-        <div style={{ fontFamily: F.mono, fontSize: 7.5, color: C.terra, letterSpacing: '0.08em', textAlign: 'center' }}>
+        <div style={{ fontFamily: F.mono, fontSize: 7.5, color: C.terra, letterSpacing: '0.08em', textAlign: 'center', wordBreak: 'break-all' }}>
           {listenUrl}
         </div>
         <GoldMark>{data.season || 'Spring 2026'}</GoldMark>
 
-        {showAnnotations && <Annotation label="listen_url / QR placeholder" style={{ bottom: 20, right: 0 }}/>}
+        {showAnnotations && <Annotation label={qr ? 'listen_url → listen_qr' : 'listen_url / QR placeholder'} style={{ bottom: 20, right: 0 }}/>}
       </div>
 
       <div style={{ position: 'absolute', bottom: BLEED + MB - 14, left: BLEED + ML, right: BLEED + MR, display: 'flex', justifyContent: 'flex-end' }}>
@@ -706,23 +796,44 @@ function MusicPage({ data={}, showAnnotations=false }) {
 }
 
 // ─── 17. COLOPHON PAGE ────────────────────────────────────────────────────────
-// Back matter page. Dark background. Publication info, contributor credits, print info.
+// Back matter page. Dark background. Publication info, credits by role, print info.
+// A long credit list is set smaller so it stays in its column (about 33 lines at full
+// size, 46 dense, 53 at the smallest; a role heading takes two).
+const CREDIT_HEADINGS = {
+  contributor: 'Contributors',
+  collaborator: 'Collaborators',
+  correspondent: 'Correspondents',
+  campaign: 'Campaigns',
+};
+
 function ColophonPage({ data={}, showAnnotations=false }) {
-  const contributors = data.contributors || [
-    { name: 'A. Chen', city: 'Shanghai' },
-    { name: 'M. Osei', city: 'Accra' },
-    { name: 'L. Varga', city: 'Budapest' },
-    { name: 'R. Patel', city: 'Mumbai' },
-    { name: 'S. Müller', city: 'Berlin' },
-    { name: 'T. Nakamura', city: 'Osaka' },
+  const credits = data.credits || [
+    { role: 'contributor', people: [
+      { name: 'A. Chen', city: 'Shanghai' },
+      { name: 'M. Osei', city: 'Accra' },
+      { name: 'L. Varga', city: 'Budapest' },
+      { name: 'R. Patel', city: 'Mumbai' },
+    ] },
+    { role: 'collaborator', people: [
+      { name: 'S. Müller', city: 'Berlin' },
+      { name: 'T. Nakamura', city: 'Osaka' },
+    ] },
+    { role: 'correspondent', people: [{ name: 'J. Okafor', city: 'Lagos' }] },
+    { role: 'campaign', people: [{ name: 'Field Notes Press', city: '' }] },
   ];
+  const lines = credits.reduce((n, group) => n + group.people.length + 2, 0);
+  const dense = lines > 30;
+  const nameSize = lines > 44 ? 9 : dense ? 10.5 : 13;
+  // Past what one column holds at 9px, credits set in two columns and About narrows.
+  // Preflight flags a colophon whose credits still do not fit.
+  const twoColumn = lines > 52;
   const season = data.season || 'Spring 2026';
   const printer = data.printer || 'Magcloud';
   const editionNumber = data.edition_number || 1;
   const editionTotal = data.edition_total || 1;
 
   const topH = 148;
-  const colW = Math.floor(LIVEW / 2) - 12;
+  const colW = twoColumn ? Math.floor(LIVEW * 2 / 3) - 12 : Math.floor(LIVEW / 2) - 12;
 
   return (
     <div style={{ width: AW, height: AH, background: C.ground, position: 'relative', overflow: 'hidden' }}>
@@ -744,22 +855,29 @@ function ColophonPage({ data={}, showAnnotations=false }) {
         position: 'absolute', top: BLEED + MT + topH, left: BLEED + ML, right: BLEED + MR,
         bottom: BLEED + MB + 44, display: 'flex', gap: 0,
       }}>
-        {/* Left column — Contributors */}
-        <div style={{ width: colW, flexShrink: 0, paddingRight: 12 }}>
-          <div style={{ fontFamily: F.mono, fontSize: 8, color: C.terra, textTransform: 'uppercase', letterSpacing: '0.16em', marginBottom: 6 }}>
-            Contributors
-          </div>
-          <div style={{ width: '100%', height: 1, background: C.gold, marginBottom: 12 }}/>
-          <div style={{ display: 'flex', flexDirection: 'column', gap: 5 }}>
-            {contributors.map((c, i) => (
-              <div key={i} style={{ display: 'flex', alignItems: 'baseline', gap: 0 }}>
-                <span style={{ fontFamily: F.serif, fontSize: 13, color: C.paper2, lineHeight: 1.3 }}>{c.name || 'Contributor Name'}</span>
-                <span style={{ fontFamily: F.mono, fontSize: 8, color: C.paper5, margin: '0 6px' }}>—</span>
-                <span style={{ fontFamily: F.mono, fontSize: 7.5, color: C.paper4, letterSpacing: '0.08em' }}>{c.city || 'City'}</span>
+        {/* Left column — Credits, one section per role */}
+        <div data-colophon-credits style={{
+          width: colW, flexShrink: 0, paddingRight: 12, overflow: 'hidden',
+          ...(twoColumn ? { columnCount: 2, columnGap: 16, columnFill: 'auto' } : {}),
+        }}>
+          {credits.map((group, g) => (
+            <div key={group.role} style={{ marginTop: g === 0 ? 0 : (dense ? 10 : 16) }}>
+              <div style={{ fontFamily: F.mono, fontSize: 8, color: C.terra, textTransform: 'uppercase', letterSpacing: '0.16em', marginBottom: 6, breakAfter: 'avoid' }}>
+                {CREDIT_HEADINGS[group.role] || group.role}
               </div>
-            ))}
-          </div>
-          {showAnnotations && <Annotation label="contributors[] name + city" style={{ top: 60, left: 0 }}/>}
+              <div style={{ width: '100%', height: 1, background: C.gold, marginBottom: dense ? 6 : 10, breakAfter: 'avoid' }}/>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: dense ? 2 : 5 }}>
+                {group.people.map((c, i) => (
+                  <div key={i} style={{ display: 'flex', alignItems: 'baseline', gap: 0, breakInside: 'avoid' }}>
+                    <span style={{ fontFamily: F.serif, fontSize: nameSize, color: C.paper2, lineHeight: 1.3 }}>{c.name || 'Contributor Name'}</span>
+                    {c.city && <span style={{ fontFamily: F.mono, fontSize: 8, color: C.paper5, margin: '0 6px' }}>—</span>}
+                    {c.city && <span style={{ fontFamily: F.mono, fontSize: 7.5, color: C.paper4, letterSpacing: '0.08em' }}>{c.city}</span>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          {showAnnotations && <Annotation label="credits[] role → people[] name + city" style={{ top: 60, left: 0 }}/>}
         </div>
 
         {/* Center vertical rule */}
@@ -804,4 +922,4 @@ function ColophonPage({ data={}, showAnnotations=false }) {
   );
 }
 
-Object.assign(window, { Spread2, Spread4, Spread6, TextSpread, MusicPage, ColophonPage });
+Object.assign(window, { Spread2, Spread4, Spread6, TextSpread, TextContinuation, MusicPage, ColophonPage });
@@ -707,7 +707,8 @@ function CollabSpreadPrivate({ data={}, showAnnotations=false }) {
   const leftEntries  = entries.slice(0, 2);
   const rightEntries = entries.slice(2, 6);
 
-  const uniqueContributors = entries.map(e => e.contributor).filter(Boolean)
+  // The header lists every member, including any without an image on the spread
+  const uniqueContributors = (data.members || entries.map(e => e.contributor)).filter(Boolean)
     .filter((c, i, arr) => arr.findIndex(x => x.name === c.name) === i);
 
   const gutter    = 4;
@@ -218,6 +218,8 @@ function TextSubmission({ data={}, showAnnotations=false }) {
   const bodyText2 = data.body_para2 || 'Later, sorting through the photographs, she would try to identify the exact moment the shift occurred. It was not in any single frame. It lived between them, in the gap the camera could not close — that interval of pure unrecorded time where the real change had quietly taken place without witness.';
   const bodyText3 = data.body_para3 || 'There is a discipline in waiting for the right light. Most people mistake it for patience. It is closer to a form of grief: the acceptance that what you are waiting for may not come, and that you will wait anyway, because the waiting itself has become the practice.';
   const pullQuote = data.pull_quote || '"It lived between the frames — in the gap the camera could not close."';
+  // Assembled essays arrive flowed (text_pages); the page holds what fits, then runs on.
+  const flowing = Array.isArray(data.text_pages);
 
   return (
     <div style={{ width:AW, height:AH, background:C.paper, position:'relative', overflow:'hidden' }}>
@@ -228,7 +230,10 @@ function TextSubmission({ data={}, showAnnotations=false }) {
       />
 
       {/* Main content area */}
-      <div style={{ position:'absolute', top:BLEED+MT, left:BLEED+ML, right:BLEED+MR }}>
+      <div style={{
+        position:'absolute', top:BLEED+MT, left:BLEED+ML, right:BLEED+MR,
+        ...(flowing ? { bottom:BLEED+MB+12, display:'flex', flexDirection:'column' } : {}),
+      }}>
         <DoubleRule/>
         <div style={{ display:'flex', justifyContent:'space-between', alignItems:'center', marginTop:8, marginBottom:12 }}>
           <SectionMark>{data.type || 'Essay'}</SectionMark>
@@ -265,8 +270,23 @@ function TextSubmission({ data={}, showAnnotations=false }) {
           </span>
         </div>
 
+        {flowing && data.pull_quote && (
+          <div style={{
+            borderLeft:`3px solid ${C.gold}`,
+            background:'rgba(232,160,32,0.06)',
+            padding:'10px 10px 10px 14px',
+            marginBottom:16, flexShrink:0,
+            fontFamily:F.serif, fontStyle:'italic', fontSize:18, color:C.ground,
+            lineHeight:1.42,
+          }}>
+            {data.pull_quote}
+          </div>
+        )}
+        {flowing && <FlowText paragraphs={data.text_pages[0] || []} region={0} dropCap/>}
+        {flowing && <JumpLine page={data.continues_on}/>}
+
         {/* Body text — first paragraph with drop cap */}
-        <div style={{ fontFamily:F.serif, fontSize:12.5, lineHeight:1.88, color:C.ground }}>
+        {!flowing && <div style={{ fontFamily:F.serif, fontSize:12.5, lineHeight:1.88, color:C.ground }}>
           <p style={{ margin:0, marginBottom:10 }}>
             <span style={{
               float:'left', fontSize:70, lineHeight:0.78, fontFamily:F.serif,
@@ -292,7 +312,7 @@ function TextSubmission({ data={}, showAnnotations=false }) {
 
           <p style={{ margin:0, marginBottom:10 }}>{bodyText2}</p>
           <p style={{ margin:0 }}>{bodyText3}</p>
-        </div>
+        </div>}
 
         {showAnnotations && (
           <>
@@ -32,6 +32,9 @@ function CommunicationsPage({ data={}, showAnnotations=false }) {
       body: 'A note of gratitude. The printed edition reaches me two weeks after it ships. I take it to the café near the market where I made half of last year\'s work and read it slowly. It is the only magazine I still do that with.',
     },
   ];
+  // Dispatches that fill more than one page run on in pairs (see core/communicationsLayout.ts)
+  const part = data.part || 1;
+  const parts = data.parts || 1;
 
   return (
     <div style={{ width:AW, height:AH, background:C.paper, position:'relative', overflow:'hidden' }}>
@@ -39,30 +42,33 @@ function CommunicationsPage({ data={}, showAnnotations=false }) {
       <div style={{ position:'absolute', top:BLEED+MT, left:BLEED+ML, right:BLEED+MR }}>
         <div style={{ display:'flex', justifyContent:'space-between', alignItems:'center', marginBottom:6 }}>
           <SectionMark>Dispatches</SectionMark>
-          <GoldMark>From the contributors</GoldMark>
+          <GoldMark>{parts > 1 ? `${part} / ${parts}` : 'From the contributors'}</GoldMark>
         </div>
         <DoubleRule/>
         <div style={{
           fontFamily:F.serif, fontStyle:'italic', fontSize:13, color:C.paper3,
           lineHeight:1.55, marginTop:10, marginBottom:14,
         }}>
-          Notes and messages to curators — closing weeks of the quarter.
+          {part > 1 ? 'Dispatches, continued.' : 'Notes and messages to curators — closing weeks of the quarter.'}
         </div>
       </div>
 
-      {/* 2-column message grid */}
+      {/* 2-column message flow: cards fill the left column, then the right, never split */}
       <div style={{
         position:'absolute',
         top:BLEED+MT+80,
+        bottom:BLEED+MB+12,
         left:BLEED+ML, right:BLEED+MR,
-        display:'grid',
-        gridTemplateColumns:'1fr 1fr',
-        gap:'14px 20px',
+        columnCount:2,
+        columnGap:20,
+        columnFill:'auto',
       }}>
         {messages.map((msg, i) => (
           <div key={i} style={{
             borderTop:`1px solid rgba(240,235,226,0.14)`,
             paddingTop:10,
+            marginBottom:14,
+            breakInside:'avoid',
           }}>
             <div style={{ fontFamily:F.mono, fontSize:7.5, color:C.terra, textTransform:'uppercase', letterSpacing:'0.14em', marginBottom:4 }}>
               From
@@ -0,0 +1,475 @@
+import { test, expect } from '@playwright/test';
+import { seedFrom, seededRandom } from '../../src/lib/seededSample';
+import {
+  FIRST_CONTENT_PAGE,
+  dispersalTypeKey,
+  interleaveByType,
+  itemPageCount,
+  opensSpread,
+  orderContentForFlow,
+  orderWithPins,
+  selectionSource,
+  type OrderableItem,
+} from '../../src/magazine/core/contentOrder';
+import { eligibleTemplates, isPoetry, selectTemplate } from '../../src/magazine/core/selectionLogic';
+import { flowText, type RegionFitter } from '../../src/magazine/core/textFlow';
+import type {
+  ContentType,
+  ParticipationMode,
+  SelectionItem,
+  SelectionItemCreator,
+} from '../../src/magazine/core/types';
+
+// The decision tables of src/magazine/SELECTION_LOGIC.md, row by row, and the running
+// order's guarantees checked over seeded random selection mixes, and how essay text
+// splits across pages.
+
+// ─── Builders ─────────────────────────────────────────────────────────────────
+
+const SEASON = 'Spring 2026';
+let nextId = 0;
+
+function words(count: number): string {
+  return Array.from({ length: count }, (_, i) => `word${i % 10}`).join(' ');
+}
+
+// Prose in paragraphs of up to 60 words: long lines, never taken for a poem
+function prose(wordCount: number): string {
+  const paras: string[] = [];
+  for (let left = wordCount; left > 0; left -= 60) paras.push(words(Math.min(60, left)));
+  return paras.join('\n\n');
+}
+
+// Stanzas of short lines
+function poem(stanzas: number, linesPerStanza = 4, wordsPerLine = 5): string {
+  const stanza = Array.from({ length: linesPerStanza }, () => words(wordsPerLine)).join('\n');
+  return Array.from({ length: stanzas }, () => stanza).join('\n\n');
+}
+
+function creator(contentType: ContentType, fields: Partial<SelectionItemCreator> = {}): SelectionItemCreator {
+  const id = `c${nextId++}`;
+  return {
+    kind: 'creator', creatorId: id, contentType, submissionType: 'regular',
+    entries: [], pageTitle: `Piece ${id}`,
+    contributor: { id, name: `Creator ${id}`, city: 'Lisbon' }, season: SEASON,
+    ...fields,
+  };
+}
+
+function visual(imageCount: number, captionWords = 0, submissionType: 'regular' | 'fullSpread' = 'regular'): SelectionItemCreator {
+  const entries = Array.from({ length: imageCount }, (_, i) => ({
+    media_url: `https://example.test/${i}.jpg`,
+    caption: i === 0 ? words(captionWords) : '',
+  }));
+  return creator('photography', { submissionType, entries });
+}
+
+function text(contentType: 'essay' | 'poetry', body: string, fields: Partial<SelectionItemCreator> = {}): SelectionItemCreator {
+  return creator(contentType, { entries: [{ body }], ...fields });
+}
+
+function collab(mode: ParticipationMode): SelectionItem {
+  const id = `k${nextId++}`;
+  return {
+    kind: 'collab', collabId: id, collabTitle: `Collab ${id}`, participationMode: mode,
+    displayText: '', entries: [], season: SEASON,
+  };
+}
+
+function communications(pageCount: number): SelectionItem {
+  const message = { from: { name: 'Ana', city: 'Porto' }, to: { name: 'Lena' }, date: '2026-03-01', body: 'Hello.' };
+  return {
+    kind: 'communications', messages: [message], season: SEASON,
+    pages: Array.from({ length: pageCount }, () => [message]),
+  };
+}
+
+function campaign(): SelectionItem {
+  const id = `p${nextId++}`;
+  return { kind: 'campaign', campaignId: id, campaignName: `Campaign ${id}`, tagline: '', discount: 2 };
+}
+
+// ─── Decision Tables ──────────────────────────────────────────────────────────
+
+test.describe('Visual submissions', () => {
+  const rows: Array<[string, SelectionItem, string]> = [
+    ['1 image, no caption',                   visual(1),                      'SpreadPanorama'],
+    ['1 image, 50 caption words',             visual(1, 50),                  'SpreadPanorama'],
+    ['1 image, 51 caption words',             visual(1, 51),                  'Spread'],
+    ['2 images',                              visual(2, 200),                 'Spread2'],
+    ['3 images',                              visual(3),                      'Spread4'],
+    ['4 images',                              visual(4),                      'Spread4'],
+    ['5 images',                              visual(5),                      'SpreadMosaic'],
+    ['6 images',                              visual(6),                      'SpreadMosaic'],
+    ['7 images',                              visual(7),                      'Spread6'],
+    ['8 images',                              visual(8),                      'Spread6'],
+    ['full spread, long caption',             visual(1, 120, 'fullSpread'),   'SpreadPanorama'],
+    ['full spread, several images',           visual(4, 0, 'fullSpread'),     'SpreadPanorama'],
+    ['art counts like photography',           creator('art', { entries: [{}, {}] }), 'Spread2'],
+  ];
+  for (const [name, item, templateName] of rows) {
+    test(`${name} → ${templateName}`, () => {
+      expect(selectTemplate(item, FIRST_CONTENT_PAGE)).toMatchObject({ templateName, pageCount: 2 });
+    });
+  }
+});
+
+test.describe('Text submissions', () => {
+  const rows: Array<[string, SelectionItem, string, number]> = [
+    ['essay, 1 word',            text('essay', prose(1)),   'TextSubmission', 1],
+    ['essay, 500 words',         text('essay', prose(500)), 'TextSubmission', 1],
+    ['essay, 501 words',         text('essay', prose(501)), 'TextSpread',     2],
+    ['essay in the caption',     creator('essay', { entries: [{ caption: prose(600) }] }), 'TextSpread', 2],
+    ['poem',                     text('poetry', poem(4)),   'PoetryPage',     1],
+    ['poem over 500 words',      text('poetry', poem(30)),  'PoetryPage',     1],
+    ['poem submitted as essay',  text('essay', poem(3)),    'PoetryPage',     1],
+    ['poetry not detected',      text('poetry', prose(300)), 'TextSubmission', 1],
+    ['music',                    creator('music'),          'MusicPage',      1],
+  ];
+  for (const [name, item, templateName, pageCount] of rows) {
+    test(`${name} → ${templateName}`, () => {
+      expect(selectTemplate(item, FIRST_CONTENT_PAGE)).toMatchObject({ templateName, pageCount });
+    });
+  }
+
+  test('music carries its listen link as a QR code', () => {
+    const { data } = selectTemplate(creator('music', { listenUrl: 'https://bandcamp.com/track/x' }), 5);
+    expect(data).toMatchObject({ page: 5, listen_url: 'https://bandcamp.com/track/x' });
+    expect((data as { listen_qr?: unknown }).listen_qr).toBeTruthy();
+  });
+});
+
+test.describe('Poetry detection', () => {
+  test('stanzas of short lines are poetry', () => {
+    expect(isPoetry(poem(3))).toBe(true);
+  });
+
+  test('no stanza break is not poetry', () => {
+    expect(isPoetry(poem(1, 12))).toBe(false);
+  });
+
+  test('lines averaging 60 characters are not poetry', () => {
+    // 10 words of 'wordN' and their spaces: 59 characters, then 65
+    expect(isPoetry(poem(3, 4, 10))).toBe(true);
+    expect(isPoetry(poem(3, 4, 11))).toBe(false);
+  });
+
+  test('prose paragraphs are not poetry', () => {
+    expect(isPoetry(prose(400))).toBe(false);
+  });
+
+  test('empty text is not poetry', () => {
+    expect(isPoetry('')).toBe(false);
+    expect(isPoetry('\n\n')).toBe(false);
+  });
+});
+
+test.describe('Collabs, communications and campaigns', () => {
+  const rows: Array<[string, SelectionItem, string, number]> = [
+    ['community collab',      collab('community'), 'CollabSpreadCommunity', 2],
+    ['local collab',          collab('local'),     'CollabSpreadLocal',     2],
+    ['private collab',        collab('private'),   'CollabSpreadPrivate',   2],
+    ['communications',        communications(1),   'CommunicationsPage',    1],
+    ['campaign',              campaign(),          'CampaignPage',          1],
+  ];
+  for (const [name, item, templateName, pageCount] of rows) {
+    test(`${name} → ${templateName}`, () => {
+      expect(selectTemplate(item, FIRST_CONTENT_PAGE)).toMatchObject({ templateName, pageCount });
+    });
+  }
+
+  test('communications that run on fill an even number of pages', () => {
+    expect(itemPageCount(communications(1))).toBe(1);
+    expect(itemPageCount(communications(4))).toBe(4);
+  });
+});
+
+test.describe('Curator layout overrides', () => {
+  const rows: Array<[string, SelectionItemCreator, string[]]> = [
+    ['1 image, short caption',                  visual(1, 10),               ['SpreadPanorama', 'Spread']],
+    ['1 image, long caption',                   visual(1, 80),               ['Spread', 'SpreadPanorama']],
+    ['2 images',                                visual(2),                   ['Spread2']],
+    ['full spread',                             visual(1, 0, 'fullSpread'),  ['SpreadPanorama']],
+    ['essay, 249 words',                        text('essay', prose(249)),   ['TextSubmission']],
+    ['essay, 250 words',                        text('essay', prose(250)),   ['TextSubmission', 'TextSpread']],
+    ['essay, 500 words',                        text('essay', prose(500)),   ['TextSubmission', 'TextSpread']],
+    ['essay, 501 words',                        text('essay', prose(501)),   ['TextSpread']],
+    ['detected poetry, ≤ 500 words',            text('poetry', poem(4)),     ['PoetryPage', 'TextSubmission', 'TextSpread']],
+    ['detected poetry, > 500 words',            text('poetry', poem(30)),    ['PoetryPage', 'TextSpread']],
+    ['poetry not detected, under 250 words',    text('poetry', prose(200)),  ['TextSubmission', 'PoetryPage']],
+    ['poetry not detected, 250–500 words',      text('poetry', prose(300)),  ['TextSubmission', 'TextSpread', 'PoetryPage']],
+    ['music',                                   creator('music'),            ['MusicPage']],
+  ];
+  for (const [name, item, templates] of rows) {
+    test(`${name}: ${templates.join(', ')}`, () => {
+      expect(eligibleTemplates(item).map(o => o.templateName)).toEqual(templates);
+    });
+  }
+
+  test('an eligible override is honoured', () => {
+    const item = text('essay', prose(300), { layout: 'TextSpread' });
+    expect(selectTemplate(item, FIRST_CONTENT_PAGE)).toMatchObject({ templateName: 'TextSpread', pageCount: 2 });
+  });
+
+  test('an override the submission does not qualify for falls back to the default', () => {
+    const item = { ...visual(3), layout: 'SpreadPanorama' };
+    expect(selectTemplate(item, FIRST_CONTENT_PAGE).templateName).toBe('Spread4');
+  });
+});
+
+// ─── Running Order ────────────────────────────────────────────────────────────
+
+// Printed first page of each item, content starting on FIRST_CONTENT_PAGE
+function firstPages(items: SelectionItem[]): number[] {
+  let cursor = FIRST_CONTENT_PAGE;
+  return items.map(item => {
+    const page = cursor;
+    cursor += itemPageCount(item);
+    return page;
+  });
+}
+
+// Spreads that would open on an odd page, i.e. need a blank filler before them
+function misalignedSpreads(items: SelectionItem[]): SelectionItem[] {
+  const pages = firstPages(items);
+  return items.filter((item, i) => opensSpread(item) && pages[i] % 2 === 1);
+}
+
+// How many of each kind of piece the running order has to work with
+function pageMix(items: SelectionItem[]) {
+  const spreads = items.filter(opensSpread);
+  const nonSpreads = items.filter(item => !opensSpread(item)).map(itemPageCount);
+  return {
+    spreads: spreads.length,
+    runOnSpreads: spreads.filter(item => itemPageCount(item) % 2 === 1).length,
+    singles: nonSpreads.filter(n => n % 2 === 1).length,
+    evens: nonSpreads.filter(n => n % 2 === 0).length,
+  };
+}
+
+// A random edition: any mix of visual pieces, essays (some running onto continuation
+// pages), poems, music, collabs, communications and campaigns
+function randomSelection(random: () => number): SelectionItem[] {
+  const pick = (n: number) => Math.floor(random() * n);
+  const count = pick(19);
+  const items: SelectionItem[] = [];
+  for (let i = 0; i < count; i++) {
+    switch (pick(8)) {
+      case 0: items.push(visual(1 + pick(8), pick(2) ? 80 : 0)); break;
+      case 1: items.push(visual(1, 0, 'fullSpread')); break;
+      case 2: {
+        const item = text('essay', prose(pick(2) ? 300 : 700));
+        const templatePages = selectTemplate(item, 0).pageCount;
+        if (pick(2)) item.textFlow = Array.from({ length: templatePages + 1 + pick(3) }, () => ['…']);
+        items.push(item);
+        break;
+      }
+      case 3: items.push(text('poetry', poem(2 + pick(3)))); break;
+      case 4: items.push(creator('music')); break;
+      case 5: items.push(collab((['community', 'local', 'private'] as const)[pick(3)])); break;
+      case 6: items.push(campaign()); break;
+      case 7:
+        if (!items.some(item => item.kind === 'communications')) items.push(communications(pick(2) ? 1 : 2 * (1 + pick(2))));
+        break;
+    }
+  }
+  return items;
+}
+
+const RUNS = 300;
+function forEachSelection(name: string, check: (items: SelectionItem[], random: () => number) => void): void {
+  for (let run = 0; run < RUNS; run++) {
+    const random = seededRandom(seedFrom(name, String(run)));
+    const items = randomSelection(random);
+    try {
+      check(items, random);
+    } catch (err) {
+      const order = items.map(item => `${selectionSource(item)}(${itemPageCount(item)}p)`).join(' ');
+      throw new Error(`run ${run} [${order}]: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+function sources(items: SelectionItem[]): string[] {
+  return items.map(selectionSource);
+}
+
+test.describe('Content order', () => {
+  test('is a reordering of the selections', () => {
+    forEachSelection('permutation', items => {
+      expect([...sources(orderContentForFlow(items))].sort()).toEqual([...sources(items)].sort());
+    });
+  });
+
+  // Spreads running onto an odd number of continuation pages each need a single to follow
+  // them; the last one can do without.
+  test('opens every spread on an even page while singles go round', () => {
+    forEachSelection('alignment', items => {
+      const { singles, runOnSpreads } = pageMix(items);
+      if (runOnSpreads > singles + 1) return;
+      expect(sources(misalignedSpreads(orderContentForFlow(items)))).toEqual([]);
+    });
+  });
+
+  test('follows a spread that runs onto an odd number of pages with a single', () => {
+    const essay = text('essay', prose(700), { textFlow: [['…'], ['…'], ['…']] });
+    const items = [essay, visual(2), creator('music'), visual(3)];
+    const ordered = orderContentForFlow(items);
+    expect(misalignedSpreads(ordered)).toEqual([]);
+    expect(ordered[ordered.indexOf(essay) + 1]).toBe(items[2]);
+  });
+
+  test('separates spreads when there are enough singles to go round', () => {
+    forEachSelection('separation', items => {
+      const { spreads, singles, runOnSpreads, evens } = pageMix(items);
+      const mortar = Math.floor(Math.max(0, singles - runOnSpreads) / 2) + evens;
+      if (mortar < spreads - 1) return;
+      const ordered = orderContentForFlow(items);
+      ordered.slice(1).forEach((item, i) => {
+        expect(opensSpread(item) && opensSpread(ordered[i])).toBe(false);
+      });
+    });
+  });
+
+  test('is the same for the same selections', () => {
+    forEachSelection('deterministic', items => {
+      expect(sources(orderContentForFlow(items))).toEqual(sources(orderContentForFlow(items)));
+    });
+  });
+
+  test('leaves an edition of singles alone but dispersed', () => {
+    const items = [creator('music'), creator('music'), text('essay', prose(100)), campaign()];
+    expect(sources(orderContentForFlow(items))).toEqual(sources([items[0], items[2], items[3], items[1]]));
+  });
+
+  test('keeps the one odd single after the last spread', () => {
+    const items = [visual(2), creator('music'), visual(3), creator('music'), creator('music')];
+    const ordered = orderContentForFlow(items);
+    expect(misalignedSpreads(ordered)).toEqual([]);
+    expect(opensSpread(ordered[ordered.length - 1])).toBe(false);
+  });
+});
+
+test.describe('Type dispersal', () => {
+  function orderable(items: SelectionItem[]): OrderableItem[] {
+    return items.map(item => ({ item, pageCount: itemPageCount(item), typeKey: dispersalTypeKey(item) }));
+  }
+
+  test('keeps each type in its original order', () => {
+    forEachSelection('dispersal-stable', items => {
+      const out = interleaveByType(orderable(items));
+      expect(out).toHaveLength(items.length);
+      for (const key of new Set(out.map(o => o.typeKey))) {
+        expect(out.filter(o => o.typeKey === key).map(o => o.item))
+          .toEqual(items.filter(item => dispersalTypeKey(item) === key));
+      }
+    });
+  });
+
+  test('only repeats a type once the others have run out', () => {
+    forEachSelection('dispersal-spacing', items => {
+      const out = interleaveByType(orderable(items));
+      out.slice(1).forEach((o, i) => {
+        if (o.typeKey === out[i].typeKey) {
+          expect(out.slice(i).every(rest => rest.typeKey === o.typeKey)).toBe(true);
+        }
+      });
+    });
+  });
+});
+
+test.describe('Pinned running order', () => {
+  // Pins a random subset of the selections at random positions, as /curate stores them
+  function randomPins(items: SelectionItem[], random: () => number): Map<string, number> {
+    const pins = new Map<string, number>();
+    for (const item of items) {
+      if (random() < 0.3) pins.set(selectionSource(item), Math.floor(random() * items.length));
+    }
+    return pins;
+  }
+
+  test('without pins, is the flow order', () => {
+    forEachSelection('unpinned', items => {
+      expect(sources(orderWithPins(items, new Map()))).toEqual(sources(orderContentForFlow(items)));
+    });
+  });
+
+  test('puts pinned pieces where the curator put them', () => {
+    forEachSelection('pinned-position', (items, random) => {
+      const pins = randomPins(items, random);
+      const ordered = orderWithPins(items, pins);
+      expect([...sources(ordered)].sort()).toEqual([...sources(items)].sort());
+
+      const claimed = new Set<number>();
+      for (const item of items) {
+        const position = pins.get(selectionSource(item));
+        if (position === undefined || claimed.has(position)) continue;
+        claimed.add(position);
+        expect(ordered[position]).toBe(item);
+      }
+    });
+  });
+
+  // A blank filler is only ever needed when no odd-length single is left to take the
+  // spread's place: every unpinned spread on an odd page has no such single after it.
+  test('only leaves a spread on an odd page when no single can take its place', () => {
+    forEachSelection('pinned-alignment', (items, random) => {
+      const pins = randomPins(items, random);
+      const ordered = orderWithPins(items, pins);
+      const pages = firstPages(ordered);
+      const pinnedPositions = new Set<number>();
+      for (const item of items) {
+        const position = pins.get(selectionSource(item));
+        if (position !== undefined && ordered[position] === item) pinnedPositions.add(position);
+      }
+
+      ordered.forEach((item, i) => {
+        if (!opensSpread(item) || pages[i] % 2 === 0 || pinnedPositions.has(i)) return;
+        const bumpable = ordered.slice(i + 1).filter((later, j) =>
+          !pinnedPositions.has(i + 1 + j) && !opensSpread(later) && itemPageCount(later) % 2 === 1
+        );
+        expect(sources(bumpable)).toEqual([]);
+      });
+    });
+  });
+
+  test('moves a single in front of a spread a pin pushed onto an odd page', () => {
+    const pinnedSingle = creator('music');
+    const spread = visual(2);
+    const single = creator('music');
+    const ordered = orderWithPins([spread, single, pinnedSingle], new Map([[selectionSource(pinnedSingle), 0]]));
+    expect(ordered).toEqual([pinnedSingle, single, spread]);
+    expect(misalignedSpreads(ordered)).toEqual([]);
+  });
+});
+
+test.describe('Text flow', () => {
+  // Holds `capacity` words on each continuation page and nothing on the template's own
+  const continuationHolds = (capacity: number): RegionFitter => async (templateName, region, textPages) => {
+    if (templateName !== 'TextContinuation') return { paragraphs: 0, words: 0 };
+    let left = capacity;
+    const paragraphs = textPages[region];
+    for (let i = 0; i < paragraphs.length; i++) {
+      const count = paragraphs[i].split(/\s+/).length;
+      if (count > left) return { paragraphs: i, words: left };
+      left -= count;
+    }
+    return { paragraphs: paragraphs.length, words: 0 };
+  };
+  const wordCounts = (pages: string[][]) => pages.map(page => page.map(p => p.split(/\s+/).length));
+
+  test('pulls a split back so a paragraph that almost fits is not clipped', async () => {
+    const pages = await flowText([words(645)], 'TextSubmission', 1, continuationHolds(640));
+    expect(wordCounts(pages)).toEqual([[], [637], [8]]);
+  });
+
+  test('splits short on a page that holds nothing else rather than clipping', async () => {
+    const pages = await flowText([words(20)], 'TextSubmission', 1, continuationHolds(5));
+    expect(wordCounts(pages)).toEqual([[], [5], [5], [5], [5]]);
+  });
+
+  test('moves a paragraph on rather than leave a few words at the foot of a page', async () => {
+    const pages = await flowText([words(630), words(100)], 'TextSubmission', 1, continuationHolds(635));
+    expect(wordCounts(pages)).toEqual([[], [630], [100]]);
+  });
+});
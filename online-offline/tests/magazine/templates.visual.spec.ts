@@ -0,0 +1,69 @@
+import { test, expect } from '@playwright/test';
+import { existsSync } from 'fs';
+import { AH, AW, SPREAD_TEMPLATES, buildPageHtml } from '../../src/magazine/core/pageHtml';
+import { FALLBACK_TEMPLATES, TEMPLATE_FILE_MAP, loadTemplateBundle } from '../../src/magazine/core/templateBundle';
+import {
+  FIXTURE_MEDIA_ORIGIN,
+  TEMPLATE_FIXTURES,
+  fixtureMediaSvg,
+} from '../../src/magazine/fixtures/templateFixtures';
+
+// Every fixture is rendered exactly as the PDF generator loads a page (the same page HTML,
+// vendored fonts, no network) and compared with its golden image. A fixture with no golden
+// for this platform is skipped rather than recorded unreviewed; --update-snapshots
+// records it.
+const bundle = loadTemplateBundle();
+
+test.describe('Template fixtures', () => {
+  test('every template has a fixture', () => {
+    const covered = new Set(TEMPLATE_FIXTURES.map(f => f.templateName));
+    const missing = Object.keys(TEMPLATE_FILE_MAP).filter(name => !covered.has(name as keyof typeof TEMPLATE_FILE_MAP));
+    expect(missing).toEqual([]);
+  });
+
+  test('fixture ids are unique', () => {
+    const ids = TEMPLATE_FIXTURES.map(f => f.id);
+    expect(ids.length).toBe(new Set(ids).size);
+  });
+});
+
+test.describe('Template visual regression', () => {
+  const goldens = new Map(TEMPLATE_FIXTURES.map(f => [`${f.templateName}: ${f.description}`, `${f.id}.png`]));
+
+  // Before the page fixture, so a skipped fixture never starts a browser
+  test.beforeEach(async ({}, testInfo) => {
+    const golden = goldens.get(testInfo.title);
+    const recording = testInfo.config.updateSnapshots === 'all' || testInfo.config.updateSnapshots === 'changed';
+    test.skip(!!golden && !recording && !existsSync(testInfo.snapshotPath(golden, { kind: 'screenshot' })),
+      `no golden image for ${process.platform}: record it with npm run test:magazine -- --update-snapshots`);
+  });
+
+  for (const fixture of TEMPLATE_FIXTURES) {
+    test(`${fixture.templateName}: ${fixture.description}`, async ({ page }) => {
+      const errors: string[] = [];
+      page.on('pageerror', err => errors.push(err.message));
+      page.on('console', msg => { if (msg.type() === 'error') errors.push(msg.text()); });
+      await page.route(`${FIXTURE_MEDIA_ORIGIN}/**`, route => route.fulfill({
+        contentType: 'image/svg+xml',
+        body: fixtureMediaSvg(route.request().url()),
+      }));
+
+      const isSpread = SPREAD_TEMPLATES.has(fixture.templateName);
+      await page.setViewportSize({ width: isSpread ? AW * 2 : AW, height: AH });
+      await page.setContent(buildPageHtml(fixture.templateName, fixture.data, bundle), { waitUntil: 'networkidle' });
+      await page.evaluate('window.__magazine_fonts__');
+      await page.evaluate('document.fonts.ready.then(() => true)');
+
+      expect(errors).toEqual([]);
+      await expect(page.locator('#root')).not.toBeEmpty();
+      await expect(page).toHaveScreenshot(`${fixture.id}.png`);
+    });
+  }
+
+  test('fallback templates render', async ({ page }) => {
+    for (const name of FALLBACK_TEMPLATES) {
+      await page.setContent(buildPageHtml(name, {}, bundle), { waitUntil: 'networkidle' });
+      await expect(page.locator('#root')).not.toBeEmpty();
+    }
+  });
+});